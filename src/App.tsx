@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { Share2, Github, BookOpen } from 'lucide-react';
 import GraphVisualizer from './components/GraphVisualizer';
 import TreeVisualizer from './components/TreeVisualizer';
@@ -21,6 +21,12 @@ function App() {
     }
   }, [isDarkMode]);
 
+  // Switching tabs unmounts the active visualizer, which cancels its run
+  const selectTab = (type: GraphType) => {
+    setGraphType(type);
+    setCurrentAlgorithm('');
+  };
+
   const renderVisualizer = () => {
     switch (graphType) {
       case 'simple':
@@ -68,7 +74,7 @@ function App() {
           <div className="border-b border-gray-200 dark:border-gray-700">
             <nav className="-mb-px flex space-x-8">
               <button
-                onClick={() => setGraphType('simple')}
+                onClick={() => selectTab('simple')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
                   graphType === 'simple'
                     ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
@@ -78,7 +84,7 @@ function App() {
                 Graph Algorithms
               </button>
               <button
-                onClick={() => setGraphType('tree')}
+                onClick={() => selectTab('tree')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
                   graphType === 'tree'
                     ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
@@ -88,7 +94,7 @@ function App() {
                 Tree Traversal
               </button>
               <button
-                onClick={() => setGraphType('mst')}
+                onClick={() => selectTab('mst')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
                   graphType === 'mst'
                     ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
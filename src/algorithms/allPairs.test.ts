@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf } from '../test/graphs';
+import { allPairsPath, floydWarshall } from './allPairs';
+import { applyStep, emptyFrame } from './trace';
+
+const graph = graphOf('A-B:3 B-C:-2 A-C:4 C-D:2 D-A:1', { directed: true });
+
+describe('floydWarshall', () => {
+  it('fills the matrix with every shortest distance', () => {
+    const { matrix } = finalFrame(floydWarshall(graph));
+    expect(matrix!.labels).toEqual(['A', 'B', 'C', 'D']);
+    expect(matrix!.cells).toEqual([
+      ['0', '3', '1', '3'],
+      ['1', '0', '-2', '0'],
+      ['3', '6', '0', '2'],
+      ['1', '4', '2', '0'],
+    ]);
+  });
+
+  it('leaves unreachable pairs at ∞', () => {
+    const { matrix } = finalFrame(floydWarshall(graphOf('A-B:1', { directed: true })));
+    expect(matrix!.cells).toEqual([['0', '1'], ['∞', '0']]);
+  });
+
+  it('marks nodes on a negative cycle', () => {
+    const frame = finalFrame(floydWarshall(graphOf('A-B:1 B-C:-3 C-A:1 C-D:1', { directed: true })));
+    expect(frame.metrics['Negative cycle']).toBe('A, B, C');
+  });
+});
+
+describe('allPairsPath', () => {
+  it('paints the shortest path of a cell', () => {
+    const frame = applyStep(emptyFrame(), allPairsPath(graph, 'A', 'D'));
+    expect(frame.narration).toBe('Shortest path A→D: A → B → C → D with total distance 3.');
+    expect(edgesWith(frame, 'path')).toEqual(['0', '1', '3']);
+  });
+
+  it('explains pairs without a path', () => {
+    expect(allPairsPath(graphOf('A-B:1', { directed: true }), 'B', 'A').narration).toBe('A is unreachable from B.');
+    expect(allPairsPath(graphOf('A-B:-1 B-A:-1', { directed: true }), 'A', 'B').narration).toContain('negative cycle');
+  });
+});
@@ -0,0 +1,210 @@
+import { getArcs, type Graph, type GraphEdge } from './graph';
+import { formatDistance } from './shortestPath';
+import { markEdge, markNode, setMatrix, setMetric } from './trace';
+import type { Step, StepAction, TraceMatrix } from './types';
+
+interface AllPairs {
+  dist: number[][];
+  // First hop on the shortest i→j route, null when j is unreachable
+  next: (number | null)[][];
+  // Cheapest direct edge for each ordered pair
+  direct: (GraphEdge | null)[][];
+}
+
+interface AllPairsObserver {
+  pivot?: (k: number, state: AllPairs) => void;
+  improved?: (i: number, j: number, k: number, old: number, state: AllPairs) => void;
+  pivotDone?: (k: number, improved: [number, number][], state: AllPairs) => void;
+}
+
+const solve = (graph: Graph, observer: AllPairsObserver = {}): AllPairs => {
+  const n = graph.nodes.length;
+  const index = new Map(graph.nodes.map((node, i) => [node, i]));
+  const state: AllPairs = {
+    dist: graph.nodes.map((_, i) => graph.nodes.map((_, j) => (i === j ? 0 : Infinity))),
+    next: graph.nodes.map((_, i) => graph.nodes.map((_, j) => (i === j ? j : null))),
+    direct: graph.nodes.map(() => graph.nodes.map(() => null)),
+  };
+  const { dist, next, direct } = state;
+
+  // Parallel edges collapse to the cheapest one; only a negative self-loop beats staying put
+  for (const { from, to, edge } of getArcs(graph)) {
+    const i = index.get(from)!;
+    const j = index.get(to)!;
+    if (edge.weight < dist[i][j]) {
+      dist[i][j] = edge.weight;
+      next[i][j] = j;
+      direct[i][j] = edge;
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    observer.pivot?.(k, state);
+    const improved: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const candidate = dist[i][k] + dist[k][j];
+        if (candidate < dist[i][j]) {
+          const old = dist[i][j];
+          dist[i][j] = candidate;
+          next[i][j] = next[i][k];
+          improved.push([i, j]);
+          observer.improved?.(i, j, k, old, state);
+        }
+      }
+    }
+    observer.pivotDone?.(k, improved, state);
+  }
+
+  return state;
+};
+
+// Follows first hops from i to j; null when unreachable or when the hops loop through a negative cycle
+const reconstruct = ({ next, direct }: AllPairs, i: number, j: number) => {
+  if (next[i][j] === null) return null;
+  const hops = [i];
+  const edges: GraphEdge[] = [];
+  for (let u = i; u !== j; ) {
+    const v = next[u][j];
+    if (v === null || hops.length > next.length) return null;
+    edges.push(direct[u][v]!);
+    hops.push(v);
+    u = v;
+  }
+  return { hops, edges };
+};
+
+// A pair has no shortest path when its route can detour through a node on a negative cycle
+const touchesNegativeCycle = (dist: number[][], i: number, j: number) =>
+  dist.some((_, k) => dist[k][k] < 0 && dist[i][k] !== Infinity && dist[k][j] !== Infinity);
+
+const toMatrix = (graph: Graph, dist: number[][], highlight: [number, number][] = [], pivot?: number): TraceMatrix => ({
+  labels: graph.nodes,
+  cells: dist.map(row => row.map(formatDistance)),
+  highlight,
+  pivot,
+});
+
+export const floydWarshall = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const names = graph.nodes;
+  // Path marks from the previous improvement fade back on the next step;
+  // nodes that already served as k stay marked visited
+  let marked: { nodes: string[]; edges: string[] } = { nodes: [], edges: [] };
+  let pivotIndex = 0;
+  const clearMarks = (): StepAction[] => [
+    ...marked.edges.map(id => markEdge(id, 'idle')),
+    ...marked.nodes.map(id => markNode(id, names.indexOf(id) < pivotIndex ? 'visited' : 'idle')),
+  ];
+  let improvedSoFar: [number, number][] = [];
+
+  const result = solve(graph, {
+    pivot: (k, { dist }) => {
+      if (k === 0) {
+        steps.push({
+          narration: 'Starting Floyd-Warshall. The matrix starts with the direct edge weights: 0 on the diagonal and ∞ where two nodes are not adjacent.',
+          actions: [setMatrix(toMatrix(graph, dist))],
+        });
+      }
+      improvedSoFar = [];
+      pivotIndex = k;
+      steps.push({
+        narration: `k = ${names[k]}: checking every pair i, j for a shorter route through ${names[k]}. Row and column ${names[k]} are highlighted in the matrix.`,
+        actions: [
+          ...clearMarks(),
+          ...(k > 0 ? [markNode(names[k - 1], 'visited')] : []),
+          markNode(names[k], 'current'),
+          setMetric('k', names[k]),
+          setMatrix(toMatrix(graph, dist, [], k)),
+        ],
+      });
+      marked = { nodes: [], edges: [] };
+    },
+
+    improved: (i, j, k, old, state) => {
+      improvedSoFar.push([i, j]);
+      const { dist } = state;
+      const path = reconstruct(state, i, j);
+      const actions: StepAction[] = [...clearMarks()];
+      marked = { nodes: [], edges: [] };
+      if (path) {
+        marked = { nodes: [names[i], names[j]].filter(n => n !== names[k]), edges: path.edges.map(e => e.id) };
+        actions.push(
+          ...path.edges.map(e => markEdge(e.id, 'path')),
+          ...marked.nodes.map(n => markNode(n, 'queued')),
+        );
+      }
+      steps.push({
+        narration: `dist(${names[i]}, ${names[j]}) improves from ${formatDistance(old)} to ${formatDistance(dist[i][k])} + ${formatDistance(dist[k][j])} = ${dist[i][j]} by going ${names[i]} → ${names[k]} → ${names[j]}.`,
+        actions: [...actions, markNode(names[k], 'current'), setMatrix(toMatrix(graph, dist, [...improvedSoFar], k))],
+      });
+    },
+
+    pivotDone: (k, improved, { dist }) => {
+      steps.push({
+        narration: improved.length > 0
+          ? `Finished k = ${names[k]}: ${improved.length} cell${improved.length === 1 ? '' : 's'} improved by passing through ${names[k]}.`
+          : `Finished k = ${names[k]}: no route gets shorter by passing through ${names[k]}.`,
+        actions: [...clearMarks(), markNode(names[k], 'current'), setMatrix(toMatrix(graph, dist, improved, k))],
+      });
+      marked = { nodes: [], edges: [] };
+    },
+  });
+
+  const { dist } = result;
+  const last: StepAction[] = names.length > 0 ? [markNode(names[names.length - 1], 'visited')] : [];
+  const onCycle = names.filter((_, k) => dist[k][k] < 0);
+  if (onCycle.length > 0) {
+    steps.push({
+      narration: `A diagonal entry became negative for ${onCycle.join(', ')}: a route from the node back to itself has negative total weight. These nodes lie on a negative cycle, so some shortest paths are undefined.`,
+      actions: [
+        ...last,
+        ...onCycle.map(n => markNode(n, 'conflict')),
+        setMetric('Negative cycle', onCycle.join(', ')),
+        setMatrix(toMatrix(graph, dist, onCycle.map(n => [names.indexOf(n), names.indexOf(n)]))),
+      ],
+    });
+    return steps;
+  }
+
+  steps.push({
+    narration: 'Every node has served as k, so the matrix holds all shortest distances. Click a cell to highlight the path between that pair.',
+    actions: [...last, setMatrix(toMatrix(graph, dist))],
+  });
+  return steps;
+};
+
+// Path for one matrix cell, painted on top of a finished Floyd-Warshall run
+export const allPairsPath = (graph: Graph, from: string, to: string): Step => {
+  const state = solve(graph);
+  const i = graph.nodes.indexOf(from);
+  const j = graph.nodes.indexOf(to);
+  const matrix = toMatrix(graph, state.dist, [[i, j]]);
+  const reset = [
+    ...graph.nodes.map(n => markNode(n, 'idle')),
+    ...graph.edges.map(e => markEdge(e.id, 'idle')),
+  ];
+
+  if (touchesNegativeCycle(state.dist, i, j)) {
+    return {
+      narration: `The route from ${from} to ${to} can loop through a negative cycle forever, so it has no shortest path.`,
+      actions: [...reset, markNode(from, 'conflict'), markNode(to, 'conflict'), setMatrix(matrix)],
+    };
+  }
+  const path = reconstruct(state, i, j);
+  if (!path) {
+    return {
+      narration: `${to} is unreachable from ${from}.`,
+      actions: [...reset, markNode(from, 'conflict'), markNode(to, 'conflict'), setMatrix(matrix)],
+    };
+  }
+  return {
+    narration: `Shortest path ${from}→${to}: ${path.hops.map(h => graph.nodes[h]).join(' → ')} with total distance ${state.dist[i][j]}.`,
+    actions: [
+      ...reset,
+      ...path.hops.map(h => markNode(graph.nodes[h], 'path')),
+      ...path.edges.map(e => markEdge(e.id, 'path')),
+      setMatrix(matrix),
+    ],
+  };
+};
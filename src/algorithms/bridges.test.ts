@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf } from '../test/graphs';
+import { bridgesAndCutVertices } from './bridges';
+import type { Frame } from './types';
+
+const cutVertices = (frame: Frame) =>
+  Object.entries(frame.nodes).filter(([, mark]) => mark.status === 'conflict').map(([id]) => id).sort();
+
+describe('bridgesAndCutVertices', () => {
+  it('finds the bridge and cut vertices between two triangles', () => {
+    // Triangles A-B-C and D-E-F joined by the bridge C-D
+    const frame = finalFrame(bridgesAndCutVertices(graphOf('A-B B-C C-A C-D D-E E-F F-D')));
+    expect(edgesWith(frame, 'conflict')).toEqual(['3']);
+    expect(cutVertices(frame)).toEqual(['C', 'D']);
+  });
+
+  it('treats every edge of a tree as a bridge', () => {
+    const frame = finalFrame(bridgesAndCutVertices(graphOf('A-B A-C C-D', { nodes: ['E'] })));
+    expect(edgesWith(frame, 'conflict')).toEqual(['0', '1', '2']);
+    expect(cutVertices(frame)).toEqual(['A', 'C']);
+  });
+
+  it('does not count a parallel edge as a way back', () => {
+    const frame = finalFrame(bridgesAndCutVertices(graphOf('A-B A-B B-C')));
+    expect(edgesWith(frame, 'conflict')).toEqual(['2']);
+    expect(cutVertices(frame)).toEqual(['B']);
+  });
+
+  it('finds nothing on a cycle', () => {
+    const frame = finalFrame(bridgesAndCutVertices(graphOf('A-B B-C C-D D-A')));
+    expect(edgesWith(frame, 'conflict')).toEqual([]);
+    expect(cutVertices(frame)).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { getNeighbors, type Graph, type GraphEdge } from './graph';
+import { labelEdge, labelNode, markEdge, markNode, setList, setMetric, setTable } from './trace';
+import type { Step, TraceTable } from './types';
+
+// Bridges and articulation points from one DFS: low(v) is the earliest discovery time
+// reachable from v's subtree using at most one back edge
+export const bridgesAndCutVertices = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const disc = new Map<string, number>();
+  const low = new Map<string, number>();
+  const parent = new Map<string, string>();
+  const bridges: GraphEdge[] = [];
+  const cutVertices = new Set<string>();
+  let time = 0;
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Disc', 'Low', 'Parent', 'Cut vertex'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [
+        node,
+        disc.has(node) ? String(disc.get(node)) : '-',
+        low.has(node) ? String(low.get(node)) : '-',
+        parent.get(node) ?? '-',
+        cutVertices.has(node) ? '✓' : '',
+      ],
+    })),
+    highlight,
+  });
+
+  const label = (node: string) => labelNode(node, `${disc.get(node)}/${low.get(node)}`);
+
+  // parentEdge is skipped by id, so a parallel edge back to the parent still counts as a back edge
+  const visit = (node: string, parentEdge: GraphEdge | null) => {
+    disc.set(node, time);
+    low.set(node, time);
+    time++;
+    steps.push({
+      narration: `Discovering ${node} at time ${disc.get(node)}. Its low value starts at the same number.`,
+      actions: [markNode(node, 'current'), label(node), setMetric('Time', time), setTable(table([node]))],
+    });
+
+    let children = 0;
+    for (const { node: next, edge } of getNeighbors(graph, node)) {
+      if (edge === parentEdge) continue;
+
+      if (!disc.has(next)) {
+        children++;
+        parent.set(next, node);
+        steps.push({
+          narration: `${next} is undiscovered, so ${node}-${next} becomes a tree edge.`,
+          actions: [markNode(node, 'queued'), markEdge(edge.id, 'selected'), labelEdge(edge.id, 'tree')],
+        });
+        visit(next, edge);
+
+        const before = low.get(node)!;
+        low.set(node, Math.min(before, low.get(next)!));
+        const isBridge = low.get(next)! > disc.get(node)!;
+        // The root is handled after its loop, since it is a cut vertex only with two or more children
+        const separates = parentEdge !== null && low.get(next)! >= disc.get(node)!;
+        if (isBridge) bridges.push(edge);
+        if (separates) cutVertices.add(node);
+
+        const checks = [
+          isBridge
+            ? `low(${next}) = ${low.get(next)} > disc(${node}) = ${disc.get(node)}: nothing below ${next} reaches ${node} or above, so ${node}-${next} is a bridge.`
+            : `low(${next}) = ${low.get(next)} ≤ disc(${node}) = ${disc.get(node)}, so ${node}-${next} is not a bridge.`,
+          ...(separates ? [`low(${next}) ≥ disc(${node}), so removing ${node} would cut ${next}'s subtree off: ${node} is an articulation point.`] : []),
+        ];
+        steps.push({
+          narration: `Back at ${node}. ${checks.join(' ')}`,
+          actions: [
+            markNode(node, 'current'),
+            label(node),
+            ...(isBridge ? [markEdge(edge.id, 'conflict'), labelEdge(edge.id, 'bridge')] : []),
+            setList('Bridges', bridges.map(e => `${e.source}-${e.target}`)),
+            setList('Articulation points', [...cutVertices]),
+            setTable(table([node, next])),
+          ],
+        });
+      } else if (disc.get(next)! < disc.get(node)!) {
+        const before = low.get(node)!;
+        low.set(node, Math.min(before, disc.get(next)!));
+        steps.push({
+          narration: `${next} is an ancestor of ${node}, so ${node}-${next} is a back edge. low(${node}) = min(${before}, disc(${next}) = ${disc.get(next)}) = ${low.get(node)}.`,
+          actions: [markEdge(edge.id, 'considered'), labelEdge(edge.id, 'back'), label(node), setTable(table([node]))],
+        });
+      }
+      // Otherwise next is a finished descendant and this back edge was already seen from below
+    }
+
+    if (parentEdge === null && children > 1) {
+      cutVertices.add(node);
+      steps.push({
+        narration: `${node} is a DFS root with ${children} tree children. Removing it would separate them, so it is an articulation point.`,
+        actions: [setList('Articulation points', [...cutVertices]), setTable(table([node]))],
+      });
+    }
+
+    steps.push({
+      narration: `${node} is finished with low value ${low.get(node)}.`,
+      actions: [markNode(node, 'visited')],
+    });
+  };
+
+  steps.push({
+    narration: 'Running DFS from every undiscovered node. Each node is labeled disc/low.',
+    actions: [setList('Bridges', []), setList('Articulation points', []), setMetric('Time', 0), setTable(table())],
+  });
+
+  for (const node of graph.nodes) {
+    if (!disc.has(node)) visit(node, null);
+  }
+
+  steps.push({
+    narration: bridges.length === 0 && cutVertices.size === 0
+      ? 'DFS complete. Every edge lies on a cycle and no single node disconnects its component: there are no bridges or articulation points.'
+      : `DFS complete. Bridges: ${bridges.map(e => `${e.source}-${e.target}`).join(', ') || 'none'}. Articulation points: ${[...cutVertices].join(', ') || 'none'}.`,
+    actions: [
+      ...graph.nodes.map(n => markNode(n, cutVertices.has(n) ? 'conflict' : 'visited')),
+      ...bridges.map(e => markEdge(e.id, 'conflict')),
+      setTable(table([...cutVertices])),
+    ],
+  });
+  return steps;
+};
@@ -0,0 +1,202 @@
+import { bridgesAndCutVertices } from './bridges';
+import { bipartiteCheck, greedyColoring } from './coloring';
+import { hierholzer } from './euler';
+import { edmondsKarp } from './flow';
+import { allPairsPath, floydWarshall } from './allPairs';
+import type { Graph } from './graph';
+import { hopcroftKarp } from './matching';
+import { kosaraju, tarjan } from './scc';
+import { bellmanFord, bfsShortestPath, dijkstra } from './shortestPath';
+import { dfsTopologicalSort, kahn } from './topological';
+import { bfs, bfsComponents, dfs } from './traversal';
+import type { Step } from './types';
+
+export interface RunOptions {
+  start: string;
+  target?: string;
+  // Nodes the user marked as the left side of a bipartite graph
+  leftSide?: string[];
+}
+
+export interface GraphAlgorithmInfo {
+  id: string;
+  label: string;
+  // Accent used for visited nodes and selected edges
+  color: string;
+  usesTarget?: boolean;
+  requiresTarget?: boolean;
+  // Runs over every node, so no start node has to be picked
+  wholeGraph?: boolean;
+  // Finishes with one group per strongly connected component
+  hasCondensation?: boolean;
+  // Tracks flow on every edge, which can be viewed as a residual graph
+  hasResidual?: boolean;
+  // Splits the nodes into two sides, drawn as columns instead of the force layout
+  usesSides?: boolean;
+  // Path for a clicked matrix cell once the run has finished
+  cellPath?: (graph: Graph, from: string, to: string) => Step;
+  // Largest graph the run is traced for; bigger ones would take seconds and hundreds of MB to step through
+  maxNodes?: number;
+  isAvailable: (graph: Pick<Graph, 'directed' | 'weighted'>) => boolean;
+  run: (graph: Graph, options: RunOptions) => Step[];
+}
+
+// Algorithms offered by the graph visualizer, in menu order
+export const GRAPH_ALGORITHMS: GraphAlgorithmInfo[] = [
+  {
+    id: 'bfs',
+    label: 'BFS',
+    color: '#22c55e',
+    isAvailable: () => true,
+    run: (graph, { start }) => bfs(graph, start),
+  },
+  {
+    id: 'dfs',
+    label: 'DFS',
+    color: '#e11d48',
+    isAvailable: () => true,
+    run: (graph, { start }) => dfs(graph, start),
+  },
+  {
+    id: 'bfs-components',
+    label: 'BFS Components',
+    color: '#22c55e',
+    wholeGraph: true,
+    isAvailable: graph => !graph.directed,
+    run: graph => bfsComponents(graph),
+  },
+  {
+    id: 'bfs-path',
+    label: 'BFS Shortest Path',
+    color: '#22c55e',
+    usesTarget: true,
+    isAvailable: () => true,
+    run: (graph, { start, target }) => bfsShortestPath(graph, start, target),
+  },
+  {
+    id: 'dijkstra',
+    label: 'Dijkstra',
+    color: '#0ea5e9',
+    usesTarget: true,
+    isAvailable: graph => graph.weighted,
+    run: (graph, { start, target }) => dijkstra(graph, start, target),
+  },
+  {
+    id: 'bellman-ford',
+    label: 'Bellman-Ford',
+    color: '#8b5cf6',
+    usesTarget: true,
+    isAvailable: graph => graph.weighted,
+    run: (graph, { start, target }) => bellmanFord(graph, start, target),
+  },
+  {
+    id: 'floyd-warshall',
+    label: 'Floyd-Warshall',
+    color: '#0d9488',
+    wholeGraph: true,
+    maxNodes: 40,
+    isAvailable: graph => graph.weighted,
+    run: graph => floydWarshall(graph),
+    cellPath: allPairsPath,
+  },
+  {
+    id: 'kahn',
+    label: 'Topo Sort (Kahn)',
+    color: '#f59e0b',
+    wholeGraph: true,
+    isAvailable: graph => graph.directed,
+    run: graph => kahn(graph),
+  },
+  {
+    id: 'topo-dfs',
+    label: 'Topo Sort (DFS)',
+    color: '#14b8a6',
+    wholeGraph: true,
+    isAvailable: graph => graph.directed,
+    run: graph => dfsTopologicalSort(graph),
+  },
+  {
+    id: 'tarjan',
+    label: 'SCC (Tarjan)',
+    color: '#0ea5e9',
+    wholeGraph: true,
+    hasCondensation: true,
+    maxNodes: 500,
+    isAvailable: graph => graph.directed,
+    run: graph => tarjan(graph),
+  },
+  {
+    id: 'kosaraju',
+    label: 'SCC (Kosaraju)',
+    color: '#0ea5e9',
+    wholeGraph: true,
+    hasCondensation: true,
+    maxNodes: 500,
+    isAvailable: graph => graph.directed,
+    run: graph => kosaraju(graph),
+  },
+  {
+    id: 'bridges',
+    label: 'Bridges & Cut Vertices',
+    color: '#6366f1',
+    wholeGraph: true,
+    maxNodes: 500,
+    isAvailable: graph => !graph.directed,
+    run: graph => bridgesAndCutVertices(graph),
+  },
+  {
+    id: 'max-flow',
+    label: 'Max Flow (Edmonds-Karp)',
+    color: '#0891b2',
+    usesTarget: true,
+    requiresTarget: true,
+    hasResidual: true,
+    maxNodes: 500,
+    isAvailable: graph => graph.directed && graph.weighted,
+    run: (graph, { start, target }) => edmondsKarp(graph, start, target!),
+  },
+  {
+    id: 'bipartite',
+    label: 'Bipartite Check',
+    color: '#db2777',
+    wholeGraph: true,
+    isAvailable: graph => !graph.directed,
+    run: graph => bipartiteCheck(graph),
+  },
+  {
+    id: 'greedy-coloring',
+    label: 'Greedy Coloring',
+    color: '#65a30d',
+    wholeGraph: true,
+    isAvailable: graph => !graph.directed,
+    run: graph => greedyColoring(graph, false),
+  },
+  {
+    id: 'welsh-powell',
+    label: 'Coloring (Welsh-Powell)',
+    color: '#65a30d',
+    wholeGraph: true,
+    isAvailable: graph => !graph.directed,
+    run: graph => greedyColoring(graph, true),
+  },
+  {
+    id: 'matching',
+    label: 'Matching (Hopcroft-Karp)',
+    color: '#ea580c',
+    wholeGraph: true,
+    usesSides: true,
+    isAvailable: graph => !graph.directed,
+    run: (graph, { leftSide }) => hopcroftKarp(graph, leftSide),
+  },
+  {
+    id: 'euler',
+    label: 'Eulerian Path',
+    color: '#7c3aed',
+    wholeGraph: true,
+    isAvailable: () => true,
+    run: graph => hierholzer(graph),
+  },
+];
+
+export const findGraphAlgorithm = (id: string): GraphAlgorithmInfo | undefined =>
+  GRAPH_ALGORITHMS.find(a => a.id === id);
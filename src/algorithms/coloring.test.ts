@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame, graphOf } from '../test/graphs';
+import { bipartiteCheck, greedyColoring } from './coloring';
+import type { Graph } from './graph';
+import type { Frame } from './types';
+
+const evenCycle = graphOf('A-B B-C C-D D-E E-F F-A');
+const oddCycle = graphOf('A-B B-C C-D D-E E-A');
+
+// No edge between distinct nodes joins two nodes of the same group
+const isProper = (frame: Frame, graph: Graph) =>
+  graph.edges.every(e => e.source === e.target || frame.nodes[e.source].group !== frame.nodes[e.target].group);
+
+describe('bipartiteCheck', () => {
+  it('splits an even cycle into two sides', () => {
+    const frame = finalFrame(bipartiteCheck(evenCycle));
+    expect(frame.metrics.Bipartite).toBe('yes');
+    expect(frame.lists['Side 1']).toEqual(['A', 'C', 'E']);
+    expect(frame.lists['Side 2']).toEqual(['B', 'D', 'F']);
+    expect(isProper(frame, evenCycle)).toBe(true);
+  });
+
+  it('reports an odd cycle', () => {
+    const frame = finalFrame(bipartiteCheck(oddCycle));
+    expect(frame.metrics.Bipartite).toBe('no');
+    expect(String(frame.metrics['Odd cycle']).split(' → ')).toHaveLength(6);
+  });
+
+  it('treats a self-loop as a conflict', () => {
+    expect(finalFrame(bipartiteCheck(graphOf('A-B B-B'))).metrics.Bipartite).toBe('no');
+  });
+});
+
+describe('greedyColoring', () => {
+  it('colors an odd cycle properly with three colors', () => {
+    for (const byDegree of [false, true]) {
+      const frame = finalFrame(greedyColoring(oddCycle, byDegree));
+      expect(isProper(frame, oddCycle)).toBe(true);
+      expect(frame.metrics['Colors used']).toBe(3);
+    }
+  });
+
+  it('lets Welsh-Powell start from the highest degree', () => {
+    // Two stars sharing no nodes; plain order starts with a leaf
+    const stars = graphOf('a-X b-X c-X d-Y e-Y');
+    expect(finalFrame(greedyColoring(stars, true)).lists.Order.slice(0, 2)).toEqual(['X', 'Y']);
+    expect(finalFrame(greedyColoring(stars, false)).lists.Order[0]).toBe('a');
+    expect(finalFrame(greedyColoring(stars, true)).metrics['Colors used']).toBe(2);
+  });
+});
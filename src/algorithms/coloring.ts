@@ -0,0 +1,215 @@
+import { getNeighbors, type Graph, type GraphEdge } from './graph';
+import { groupNode, labelNode, markEdge, markNode, setList, setMetric, setTable } from './trace';
+import type { Step, TraceTable } from './types';
+
+const colorName = (color: number) => `color ${color + 1}`;
+
+// BFS 2-coloring: every edge must join the two sides, so a same-colored edge closes an odd cycle
+export const bipartiteCheck = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const color = new Map<string, number>();
+  const parent = new Map<string, { node: string; edge: GraphEdge }>();
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Color', 'Parent'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [node, color.has(node) ? colorName(color.get(node)!) : '-', parent.get(node)?.node ?? '-'],
+    })),
+    highlight,
+  });
+
+  const paint = (node: string, value: number) => {
+    color.set(node, value);
+    return [groupNode(node, value), labelNode(node, colorName(value))];
+  };
+
+  // Tree path from node up to its BFS root
+  const ancestry = (node: string) => {
+    const chain = [node];
+    for (let current = node; parent.has(current); current = parent.get(current)!.node) {
+      chain.push(parent.get(current)!.node);
+    }
+    return chain;
+  };
+
+  steps.push({
+    narration: 'Checking whether the graph is bipartite by 2-coloring it with BFS. Every neighbor must get the opposite color of the node that reached it.',
+    actions: [setTable(table())],
+  });
+
+  for (const root of graph.nodes) {
+    if (color.has(root)) continue;
+    const queue = [root];
+    steps.push({
+      narration: `${root} is uncolored, so it starts a new component. It gets ${colorName(0)}; any choice works for the first node of a component.`,
+      actions: [...paint(root, 0), markNode(root, 'queued'), setList('Queue', [...queue]), setTable(table([root]))],
+    });
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      steps.push({
+        narration: `Visiting ${current} (${colorName(color.get(current)!)}). Its neighbors must all be ${colorName(1 - color.get(current)!)}.`,
+        actions: [markNode(current, 'current'), setList('Queue', [...queue])],
+      });
+
+      for (const { node, edge } of getNeighbors(graph, current)) {
+        if (!color.has(node)) {
+          parent.set(node, { node: current, edge });
+          queue.push(node);
+          steps.push({
+            narration: `${node} is uncolored. It gets ${colorName(1 - color.get(current)!)} because its neighbor ${current} has ${colorName(color.get(current)!)}.`,
+            actions: [
+              ...paint(node, 1 - color.get(current)!),
+              markEdge(edge.id, 'selected'),
+              markNode(node, 'queued'),
+              setList('Queue', [...queue]),
+              setTable(table([node])),
+            ],
+          });
+          continue;
+        }
+        if (color.get(node) !== color.get(current)) continue;
+
+        // Both tree paths meet at their lowest common ancestor; with the clash edge they form an odd cycle
+        const up = ancestry(current);
+        const down = ancestry(node);
+        const meet = up.find(n => down.includes(n))!;
+        const left = up.slice(0, up.indexOf(meet));
+        const right = down.slice(0, down.indexOf(meet));
+        const cycle = [...left, meet, ...[...right].reverse()];
+        const treeEdges = [...left, ...right].map(n => parent.get(n)!.edge);
+        const route = [...cycle, current].join(' → ');
+        steps.push({
+          narration: (node === current
+            ? `Conflict: ${current} has a self-loop, so it would need a different color from itself.`
+            : `Conflict: ${current} and ${node} are neighbors but both have ${colorName(color.get(current)!)}.`) +
+            ` The cycle ${route} has odd length ${treeEdges.length + 1}, so the graph is not bipartite.`,
+          actions: [
+            ...graph.edges.map(e => markEdge(e.id, 'idle')),
+            ...[...treeEdges, edge].map(e => markEdge(e.id, 'conflict')),
+            ...cycle.map(n => markNode(n, 'conflict')),
+            setMetric('Bipartite', 'no'),
+            setMetric('Odd cycle', route),
+            setTable(table(cycle)),
+          ],
+        });
+        return steps;
+      }
+
+      steps.push({
+        narration: `All neighbors of ${current} are consistent with the coloring.`,
+        actions: [markNode(current, 'visited')],
+      });
+    }
+  }
+
+  const sides = [0, 1].map(side => graph.nodes.filter(n => color.get(n) === side));
+  steps.push({
+    narration: `Every edge joins a ${colorName(0)} node to a ${colorName(1)} node, so the graph is bipartite with sides {${sides[0].join(', ')}} and {${sides[1].join(', ')}}.`,
+    actions: [
+      setMetric('Bipartite', 'yes'),
+      setList('Side 1', sides[0]),
+      setList('Side 2', sides[1]),
+      setTable(table()),
+    ],
+  });
+  return steps;
+};
+
+// Greedy coloring: each node takes the smallest color none of its neighbors has.
+// Welsh-Powell visits nodes by decreasing degree, which tends to need fewer colors.
+export const greedyColoring = (graph: Graph, byDegree: boolean): Step[] => {
+  const steps: Step[] = [];
+  const color = new Map<string, number>();
+  const degree = new Map(graph.nodes.map(n => [n, getNeighbors(graph, n).filter(nb => nb.node !== n).length]));
+  // Array sort is stable, so ties keep insertion order
+  const order = byDegree ? [...graph.nodes].sort((a, b) => degree.get(b)! - degree.get(a)!) : [...graph.nodes];
+  let used = 0;
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Degree', 'Color'],
+    rows: order.map(node => ({
+      key: node,
+      cells: [node, String(degree.get(node)), color.has(node) ? colorName(color.get(node)!) : '-'],
+    })),
+    highlight,
+  });
+
+  const hasSelfLoop = graph.edges.some(e => e.source === e.target);
+  steps.push({
+    narration: (byDegree
+      ? `Welsh-Powell: sorting nodes by decreasing degree (${order.map(n => `${n}:${degree.get(n)}`).join(', ')}). Each node then takes the smallest color its neighbors are not using.`
+      : 'Greedy coloring: visiting nodes in the order they were added. Each node takes the smallest color its neighbors are not using.') +
+      (hasSelfLoop ? ' Self-loops are ignored, since a node cannot differ from itself.' : ''),
+    actions: [setList('Order', order), setMetric('Colors used', 0), setTable(table())],
+  });
+
+  let previous: string | null = null;
+  // Edges to the neighbors that were checked fade back on the next node
+  let considered: string[] = [];
+  for (const node of order) {
+    const neighbors = getNeighbors(graph, node).filter(nb => nb.node !== node);
+    const taken = new Set(neighbors.filter(nb => color.has(nb.node)).map(nb => color.get(nb.node)!));
+    let choice = 0;
+    while (taken.has(choice)) choice++;
+    color.set(node, choice);
+    const isNew = choice === used;
+    used = Math.max(used, choice + 1);
+
+    const takenNames = [...taken].sort((a, b) => a - b).map(colorName);
+    const reason = taken.size === 0
+      ? `None of its neighbors is colored yet, so it gets ${colorName(choice)}.`
+      : `Its colored neighbors use ${takenNames.join(', ')}, so the smallest free color is ${colorName(choice)}.`;
+    steps.push({
+      narration: `Coloring ${node}. ${reason}${isNew ? ` That is a new color, so ${used} color${used === 1 ? ' is' : 's are'} now in use.` : ''}`,
+      actions: [
+        ...considered.map(id => markEdge(id, 'idle')),
+        ...(previous ? [markNode(previous, 'visited')] : []),
+        markNode(node, 'current'),
+        groupNode(node, choice),
+        labelNode(node, colorName(choice)),
+        ...neighbors.map(nb => markEdge(nb.edge.id, 'considered')),
+        setMetric('Colors used', used),
+        setTable(table([node])),
+      ],
+    });
+    considered = neighbors.map(nb => nb.edge.id);
+    previous = node;
+  }
+
+  steps.push({
+    narration: `Every node is colored and no edge joins two nodes of the same color. ${used} color${used === 1 ? ' was' : 's were'} used; greedy coloring is not always optimal, but never needs more than the maximum degree plus one.`,
+    actions: [
+      ...considered.map(id => markEdge(id, 'idle')),
+      ...(previous ? [markNode(previous, 'visited')] : []),
+      setTable(table()),
+    ],
+  });
+  return steps;
+};
+
+// Plain 2-coloring without a trace, or null when an odd cycle makes it impossible
+export const findBipartition = (graph: Graph): { left: string[]; right: string[] } | null => {
+  const color = new Map<string, number>();
+  for (const root of graph.nodes) {
+    if (color.has(root)) continue;
+    color.set(root, 0);
+    const queue = [root];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const { node } of getNeighbors(graph, current)) {
+        if (!color.has(node)) {
+          color.set(node, 1 - color.get(current)!);
+          queue.push(node);
+        } else if (color.get(node) === color.get(current)) {
+          return null;
+        }
+      }
+    }
+  }
+  return {
+    left: graph.nodes.filter(n => color.get(n) === 0),
+    right: graph.nodes.filter(n => color.get(n) === 1),
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame, graphOf } from '../test/graphs';
+import { hierholzer } from './euler';
+import type { Graph } from './graph';
+
+// The walk uses every edge exactly once, in a direction the graph allows
+const usesEveryEdgeOnce = (walk: string[], graph: Graph) => {
+  const unused = [...graph.edges];
+  for (let i = 1; i < walk.length; i++) {
+    const index = unused.findIndex(e =>
+      (e.source === walk[i - 1] && e.target === walk[i]) ||
+      (!graph.directed && e.source === walk[i] && e.target === walk[i - 1]));
+    if (index === -1) return false;
+    unused.splice(index, 1);
+  }
+  return unused.length === 0;
+};
+
+describe('hierholzer', () => {
+  it('finds a circuit when every degree is even', () => {
+    // Two triangles sharing C
+    const graph = graphOf('A-B B-C C-A C-D D-E E-C');
+    const walk = finalFrame(hierholzer(graph)).lists['Eulerian circuit'];
+    expect(walk[0]).toBe(walk[walk.length - 1]);
+    expect(usesEveryEdgeOnce(walk, graph)).toBe(true);
+  });
+
+  it('finds a path between the two odd nodes', () => {
+    const graph = graphOf('A-B B-C C-A A-D');
+    const walk = finalFrame(hierholzer(graph)).lists['Eulerian path'];
+    expect([walk[0], walk[walk.length - 1]].sort()).toEqual(['A', 'D']);
+    expect(usesEveryEdgeOnce(walk, graph)).toBe(true);
+  });
+
+  it('follows edge directions in a directed graph', () => {
+    const graph = graphOf('A-B B-C C-A C-D D-C', { directed: true });
+    const walk = finalFrame(hierholzer(graph)).lists['Eulerian circuit'];
+    expect(usesEveryEdgeOnce(walk, graph)).toBe(true);
+  });
+
+  it('rejects graphs whose degrees rule a walk out', () => {
+    const frame = finalFrame(hierholzer(graphOf('A-B A-C A-D')));
+    expect(frame.narration).toContain('none exists');
+    expect(frame.lists['Eulerian path']).toBeUndefined();
+  });
+
+  it('rejects edges split over two components', () => {
+    const frame = finalFrame(hierholzer(graphOf('A-B B-C C-A D-E E-F F-D')));
+    expect(frame.narration).toContain('D, E, F cannot be reached from A');
+    expect(frame.lists['Eulerian circuit']).toBeUndefined();
+  });
+});
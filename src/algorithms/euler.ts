@@ -0,0 +1,180 @@
+import { getArcs, type Arc, type Graph } from './graph';
+import { UnionFind } from './mst';
+import { labelEdge, labelNode, markEdge, markNode, setList, setMetric, setTable } from './trace';
+import type { Step, TraceTable } from './types';
+
+interface DegreeCheck {
+  ok: boolean;
+  // Where the walk has to start (and end, for a path)
+  start?: string;
+  end?: string;
+  offenders: string[];
+  explanation: string;
+}
+
+const checkUndirected = (graph: Graph, degree: Map<string, number>): DegreeCheck => {
+  const odd = graph.nodes.filter(n => degree.get(n)! % 2 === 1);
+  if (odd.length === 0) {
+    return { ok: true, offenders: [], explanation: 'Every node has even degree, so the degrees allow an Eulerian circuit: each time the walk enters a node it can leave again.' };
+  }
+  if (odd.length === 2) {
+    return {
+      ok: true,
+      start: odd[0],
+      end: odd[1],
+      offenders: [],
+      explanation: `Exactly two nodes (${odd.join(' and ')}) have odd degree, so the degrees allow an Eulerian path from one to the other, but no circuit.`,
+    };
+  }
+  return {
+    ok: false,
+    offenders: odd,
+    explanation: `${odd.length} nodes have odd degree (${odd.join(', ')}). An Eulerian path allows at most two, one at each end, so none exists.`,
+  };
+};
+
+const checkDirected = (graph: Graph, inDegree: Map<string, number>, outDegree: Map<string, number>): DegreeCheck => {
+  const balance = (n: string) => outDegree.get(n)! - inDegree.get(n)!;
+  const unbalanced = graph.nodes.filter(n => balance(n) !== 0);
+  if (unbalanced.length === 0) {
+    return { ok: true, offenders: [], explanation: 'Every node has in-degree equal to out-degree, so the degrees allow an Eulerian circuit.' };
+  }
+  const starts = unbalanced.filter(n => balance(n) === 1);
+  const ends = unbalanced.filter(n => balance(n) === -1);
+  if (unbalanced.length === 2 && starts.length === 1 && ends.length === 1) {
+    return {
+      ok: true,
+      start: starts[0],
+      end: ends[0],
+      offenders: [],
+      explanation: `${starts[0]} has one more outgoing than incoming edge and ${ends[0]} one more incoming than outgoing, so the degrees allow an Eulerian path from ${starts[0]} to ${ends[0]}, but no circuit.`,
+    };
+  }
+  return {
+    ok: false,
+    offenders: unbalanced,
+    explanation: `${unbalanced.map(n => `${n} (out ${outDegree.get(n)}, in ${inDegree.get(n)})`).join(', ')} are unbalanced. A path allows only one node with one extra outgoing edge and one with one extra incoming edge.`,
+  };
+};
+
+export const hierholzer = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const arcs = getArcs(graph);
+  const inDegree = new Map(graph.nodes.map(n => [n, 0]));
+  const outDegree = new Map(graph.nodes.map(n => [n, 0]));
+  // A self-loop adds 2 to an undirected degree, and one to each directed count
+  for (const { source, target } of graph.edges) {
+    outDegree.set(source, outDegree.get(source)! + 1);
+    inDegree.set(target, inDegree.get(target)! + 1);
+  }
+  const degree = new Map(graph.nodes.map(n => [n, inDegree.get(n)! + outDegree.get(n)!]));
+  const used = new Set<string>();
+  const remaining = (node: string) => arcs.filter(a => a.from === node && !used.has(a.edge.id)).length;
+
+  const table = (highlight: string[] = []): TraceTable => graph.directed
+    ? {
+      columns: ['Node', 'In', 'Out', 'Unused out'],
+      rows: graph.nodes.map(node => ({
+        key: node,
+        cells: [node, String(inDegree.get(node)), String(outDegree.get(node)), String(remaining(node))],
+      })),
+      highlight,
+    }
+    : {
+      columns: ['Node', 'Degree', 'Unused'],
+      rows: graph.nodes.map(node => ({
+        key: node,
+        cells: [node, String(degree.get(node)), String(remaining(node))],
+      })),
+      highlight,
+    };
+
+  if (graph.edges.length === 0) {
+    return [{ narration: 'The graph has no edges, so there is nothing to traverse.', actions: [] }];
+  }
+
+  const check = graph.directed ? checkDirected(graph, inDegree, outDegree) : checkUndirected(graph, degree);
+  steps.push({
+    narration: `Checking degrees. ${check.explanation}`,
+    actions: [
+      ...graph.nodes.map(n => labelNode(n, graph.directed ? `${inDegree.get(n)}/${outDegree.get(n)}` : String(degree.get(n)))),
+      ...check.offenders.map(n => markNode(n, 'conflict')),
+      setMetric('Degree check', check.ok ? 'passed' : 'failed'),
+      setTable(table(check.offenders)),
+    ],
+  });
+  if (!check.ok) return steps;
+
+  // Every edge must be reachable: all nodes that have edges share one (weakly) connected component
+  const components = new UnionFind(graph.nodes);
+  graph.edges.forEach(e => components.union(e.source, e.target));
+  const withEdges = graph.nodes.filter(n => degree.get(n)! > 0);
+  const stranded = withEdges.filter(n => components.find(n) !== components.find(withEdges[0]));
+  if (stranded.length > 0) {
+    steps.push({
+      narration: `The degrees work out, but the edges are split across separate parts of the graph: ${stranded.join(', ')} cannot be reached from ${withEdges[0]}. No single walk can cover every edge.`,
+      actions: [...stranded.map(n => markNode(n, 'conflict')), setMetric('Connected', 'no')],
+    });
+    return steps;
+  }
+
+  const start = check.start ?? withEdges[0];
+  const kind = check.start ? 'path' : 'circuit';
+  steps.push({
+    narration: `The edges are all connected, so an Eulerian ${kind} exists. Running Hierholzer's algorithm from ${start}: walk along unused edges until stuck, then back up and splice in detours.`,
+    actions: [setMetric('Connected', 'yes'), markNode(start, 'current'), setList('Stack', [start])],
+  });
+
+  // Stack of (node, edge used to reach it); popping a node prepends it to the final walk
+  const stack: { node: string; arc?: Arc }[] = [{ node: start }];
+  const walk: string[] = [];
+  const walkArcs: Arc[] = [];
+  let taken = 0;
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    const next = arcs.find(a => a.from === top.node && !used.has(a.edge.id));
+    if (next) {
+      used.add(next.edge.id);
+      taken++;
+      stack.push({ node: next.to, arc: next });
+      steps.push({
+        narration: `Taking unused edge ${next.from}${graph.directed ? '→' : '-'}${next.to} as edge #${taken} of the walk.`,
+        actions: [
+          markNode(top.node, 'visited'),
+          markNode(next.to, 'current'),
+          markEdge(next.edge.id, 'selected'),
+          labelEdge(next.edge.id, `#${taken}`),
+          setList('Stack', stack.map(s => s.node)),
+          setTable(table([top.node, next.to])),
+        ],
+      });
+      continue;
+    }
+
+    stack.pop();
+    walk.unshift(top.node);
+    if (top.arc) walkArcs.unshift(top.arc);
+    steps.push({
+      narration: stack.length > 0
+        ? `${top.node} has no unused edges left. Popping it onto the front of the ${kind} and backing up to ${stack[stack.length - 1].node} to look for a detour.`
+        : `${top.node} has no unused edges left and the stack is empty.`,
+      actions: [
+        markNode(top.node, 'visited'),
+        ...(stack.length > 0 ? [markNode(stack[stack.length - 1].node, 'current')] : []),
+        setList('Stack', stack.map(s => s.node)),
+        setList(kind === 'path' ? 'Eulerian path' : 'Eulerian circuit', [...walk]),
+      ],
+    });
+  }
+
+  // Detours change the order, so renumber edges as they appear in the finished walk
+  steps.push({
+    narration: `Done. Eulerian ${kind}: ${walk.join(' → ')}. Edges are renumbered in the order the ${kind} uses them.`,
+    actions: [
+      ...walkArcs.flatMap((arc, i) => [markEdge(arc.edge.id, 'path'), labelEdge(arc.edge.id, `#${i + 1}`)]),
+      ...walk.map(n => markNode(n, 'visited')),
+      setTable(table()),
+    ],
+  });
+  return steps;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame, graphOf } from '../test/graphs';
+import { edmondsKarp } from './flow';
+import type { Frame } from './types';
+
+// The classic CLRS network, maximum flow 23
+const network = graphOf(
+  's-v1:16 s-v2:13 v1-v3:12 v2-v1:4 v2-v4:14 v3-v2:9 v3-t:20 v4-v3:7 v4-t:4',
+  { directed: true }
+);
+
+// Flow into each node minus flow out of it
+const netFlow = (frame: Frame, node: string) =>
+  network.edges.reduce((sum, e) => {
+    const flow = frame.edges[e.id].flow!;
+    return sum + (e.target === node ? flow : 0) - (e.source === node ? flow : 0);
+  }, 0);
+
+describe('edmondsKarp', () => {
+  it('finds the maximum flow and a minimum cut of the same capacity', () => {
+    const frame = finalFrame(edmondsKarp(network, 's', 't'));
+    expect(frame.metrics['Max flow']).toBe(23);
+    expect(frame.lists['Min cut'].sort()).toEqual(['v1→v3', 'v4→v3', 'v4→t'].sort());
+  });
+
+  it('keeps flow within capacity and conserved at every inner node', () => {
+    const frame = finalFrame(edmondsKarp(network, 's', 't'));
+    network.edges.forEach(e => {
+      expect(frame.edges[e.id].flow).toBeGreaterThanOrEqual(0);
+      expect(frame.edges[e.id].flow).toBeLessThanOrEqual(e.weight);
+    });
+    ['v1', 'v2', 'v3', 'v4'].forEach(node => expect(netFlow(frame, node)).toBe(0));
+    expect(netFlow(frame, 't')).toBe(23);
+  });
+
+  it('has zero flow when the sink cannot be reached', () => {
+    const frame = finalFrame(edmondsKarp(graphOf('s-a:5 t-a:5', { directed: true }), 's', 't'));
+    expect(frame.metrics['Max flow']).toBe(0);
+    expect(frame.lists['Min cut']).toEqual([]);
+  });
+
+  it('rejects negative capacities and a sink equal to the source', () => {
+    expect(edmondsKarp(graphOf('s-t:-1', { directed: true }), 's', 't')[0].narration).toContain('negative capacity');
+    expect(edmondsKarp(network, 's', 's')[0].narration).toContain('must be different');
+  });
+});
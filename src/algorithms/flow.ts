@@ -0,0 +1,159 @@
+import type { Graph, GraphEdge } from './graph';
+import { groupNode, labelNode, markEdge, markNode, setFlow, setList, setMetric, setTable } from './trace';
+import type { Step, TraceTable } from './types';
+
+// One direction of residual capacity: along an edge, or backwards to cancel its flow
+interface ResidualArc {
+  from: string;
+  to: string;
+  edge: GraphEdge;
+  forward: boolean;
+}
+
+const describeArc = (arc: ResidualArc) =>
+  arc.forward ? `${arc.from}→${arc.to}` : `${arc.from}→${arc.to} (undoing ${arc.to}→${arc.from})`;
+
+// Edmonds-Karp: Ford-Fulkerson where every augmenting path is a shortest one found by BFS
+export const edmondsKarp = (graph: Graph, source: string, sink: string): Step[] => {
+  if (source === sink) {
+    return [{ narration: 'The source and the sink must be different nodes.', actions: [markNode(source, 'conflict')] }];
+  }
+  const negative = graph.edges.find(e => e.weight < 0);
+  if (negative) {
+    return [{
+      narration: `Edge ${negative.source}→${negative.target} has negative capacity ${negative.weight}. Capacities must be non-negative.`,
+      actions: [markEdge(negative.id, 'rejected')],
+    }];
+  }
+
+  const steps: Step[] = [];
+  const flow = new Map(graph.edges.map(e => [e.id, 0]));
+  const residual = (arc: ResidualArc) =>
+    arc.forward ? arc.edge.weight - flow.get(arc.edge.id)! : flow.get(arc.edge.id)!;
+  // Self-loops can never carry useful flow, so they have no residual arcs
+  const residualArcs = (node: string): ResidualArc[] =>
+    graph.edges
+      .filter(edge => edge.source !== edge.target)
+      .flatMap(edge => [
+        ...(edge.source === node ? [{ from: node, to: edge.target, edge, forward: true }] : []),
+        ...(edge.target === node ? [{ from: node, to: edge.source, edge, forward: false }] : []),
+      ])
+      .filter(arc => residual(arc) > 0);
+  const edgeStatus = (edge: GraphEdge) => (flow.get(edge.id)! > 0 ? 'selected' : 'idle');
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Edge', 'Flow', 'Capacity', 'Residual'],
+    rows: graph.edges.map(e => ({
+      key: e.id,
+      cells: [`${e.source}→${e.target}`, String(flow.get(e.id)), String(e.weight), String(e.weight - flow.get(e.id)!)],
+    })),
+    highlight,
+  });
+
+  steps.push({
+    narration: `Finding the maximum flow from ${source} to ${sink}. Edge weights are capacities and every edge starts with no flow. Each round, BFS looks for the shortest path that still has spare capacity in the residual graph.`,
+    actions: [
+      ...graph.edges.map(e => setFlow(e.id, 0)),
+      labelNode(source, 'source'),
+      labelNode(sink, 'sink'),
+      markNode(source, 'current'),
+      setMetric('Max flow', 0),
+      setMetric('Augmenting paths', 0),
+      setTable(table()),
+    ],
+  });
+
+  let total = 0;
+  let rounds = 0;
+  let reached = new Set<string>();
+  for (;;) {
+    const parent = new Map<string, ResidualArc>();
+    const queue = [source];
+    reached = new Set([source]);
+    steps.push({
+      narration: `Round ${rounds + 1}: BFS from ${source} along residual edges.`,
+      actions: [
+        ...graph.edges.map(e => markEdge(e.id, edgeStatus(e))),
+        ...graph.nodes.filter(n => n !== source).map(n => markNode(n, 'idle')),
+        setList('Queue', [source]),
+      ],
+    });
+
+    while (queue.length > 0 && !reached.has(sink)) {
+      const current = queue.shift()!;
+      const used: ResidualArc[] = [];
+      for (const arc of residualArcs(current)) {
+        if (reached.has(arc.to)) continue;
+        reached.add(arc.to);
+        parent.set(arc.to, arc);
+        queue.push(arc.to);
+        used.push(arc);
+      }
+      steps.push({
+        narration: used.length > 0
+          ? `Exploring ${current}: reached ${used.map(describeArc).join(', ')}.`
+          : `Exploring ${current}: every residual edge leads to a node that was already reached.`,
+        actions: [
+          ...(current !== source ? [markNode(current, 'visited')] : []),
+          ...used.flatMap(arc => [markEdge(arc.edge.id, 'considered'), markNode(arc.to, 'queued')]),
+          setList('Queue', [...queue]),
+        ],
+      });
+    }
+
+    if (!reached.has(sink)) break;
+
+    const path: ResidualArc[] = [];
+    for (let node = sink; node !== source; node = parent.get(node)!.from) {
+      path.unshift(parent.get(node)!);
+    }
+    const bottleneck = Math.min(...path.map(residual));
+    const backward = path.filter(arc => !arc.forward);
+    steps.push({
+      narration: `Augmenting path ${[source, ...path.map(arc => arc.to)].join(' → ')}. Its bottleneck is ${bottleneck}, the smallest residual capacity along it.` +
+        (backward.length > 0
+          ? ` It uses ${backward.map(describeArc).join(', ')}, which pushes flow back and reroutes it.`
+          : ''),
+      actions: [
+        ...graph.edges.map(e => markEdge(e.id, edgeStatus(e))),
+        ...path.map(arc => markEdge(arc.edge.id, 'path')),
+        ...path.map(arc => markNode(arc.to, 'path')),
+        setTable(table(path.map(arc => arc.edge.id))),
+      ],
+    });
+
+    for (const arc of path) {
+      flow.set(arc.edge.id, flow.get(arc.edge.id)! + (arc.forward ? bottleneck : -bottleneck));
+    }
+    total += bottleneck;
+    rounds++;
+    steps.push({
+      narration: `Pushing ${bottleneck} unit${bottleneck === 1 ? '' : 's'} along the path. The total flow is now ${total}.`,
+      actions: [
+        ...path.map(arc => setFlow(arc.edge.id, flow.get(arc.edge.id)!)),
+        setMetric('Max flow', total),
+        setMetric('Augmenting paths', rounds),
+        setTable(table(path.map(arc => arc.edge.id))),
+      ],
+    });
+  }
+
+  // The nodes the last BFS reached are the source side of a minimum cut
+  const cut = graph.edges.filter(e => reached.has(e.source) && !reached.has(e.target));
+  const sinkSide = graph.nodes.filter(n => !reached.has(n));
+  steps.push({
+    narration: `${sink} cannot be reached any more, so the flow of ${total} is maximum. The nodes still reachable from ${source}, {${[...reached].join(', ')}}, and the rest, {${sinkSide.join(', ')}}, form a minimum cut. ` +
+      (cut.length > 0
+        ? `Its edges ${cut.map(e => `${e.source}→${e.target}`).join(', ')} are saturated and their capacities add up to ${total}.`
+        : `No edge crosses it, which is why no flow gets through.`),
+    actions: [
+      ...graph.nodes.flatMap(n => [markNode(n, 'visited'), groupNode(n, reached.has(n) ? 0 : 1)]),
+      ...graph.edges.map(e => markEdge(e.id, edgeStatus(e))),
+      ...cut.map(e => markEdge(e.id, 'conflict')),
+      setList('Queue', []),
+      setList('Min cut', cut.map(e => `${e.source}→${e.target}`)),
+      setTable(table(cut.map(e => e.id))),
+    ],
+  });
+  return steps;
+};
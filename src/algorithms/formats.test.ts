@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { exportWarnings, GRAPH_FORMATS, parseGraph, serializeGraph, type GraphData } from './formats';
+
+const roundTrip = (data: GraphData, format: Parameters<typeof parseGraph>[1]) =>
+  parseGraph(serializeGraph(data, format), format);
+
+describe('DOT export', () => {
+  it('quotes node names that spell a keyword in any case', () => {
+    const data: GraphData = {
+      nodes: ['node', 'Edge', 'graph', 'DiGraph', 'strict', 'subgraph', 'plain'],
+      edges: [{ source: 'node', target: 'Edge', weight: 2 }, { source: 'graph', target: 'plain', weight: 1 }],
+      directed: true,
+      weighted: true,
+    };
+    const text = serializeGraph(data, 'dot');
+    expect(text).toContain('"node" -> "Edge" [weight=2];');
+    expect(text).toContain('  plain;');
+    expect(roundTrip(data, 'dot')).toEqual({ data, errors: [] });
+  });
+
+  it('escapes backslashes and quotes in names', () => {
+    const data: GraphData = {
+      nodes: ['a\\', 'say "hi"', 'c:\\dir\\"x"'],
+      edges: [{ source: 'a\\', target: 'say "hi"' }, { source: 'say "hi"', target: 'c:\\dir\\"x"' }],
+      directed: false,
+    };
+    expect(serializeGraph(data, 'dot')).toContain('"a\\\\" -- "say \\"hi\\"";');
+    expect(roundTrip(data, 'dot')).toEqual({ data, errors: [] });
+  });
+});
+
+describe('parseGraph', () => {
+  it('reads every format example without errors', () => {
+    for (const { id, example } of GRAPH_FORMATS) {
+      const { data, errors } = parseGraph(example, id);
+      expect(errors).toEqual([]);
+      expect(data.nodes.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('round-trips quoted names through the edge list and matrix', () => {
+    const data: GraphData = {
+      nodes: ['New York', '12', 'a"b', 'lone'],
+      edges: [{ source: 'New York', target: '12', weight: 3 }, { source: '12', target: 'a"b', weight: 1 }],
+      directed: false,
+      weighted: true,
+    };
+    for (const format of ['edge-list', 'matrix'] as const) {
+      const { data: parsed, errors } = roundTrip(data, format);
+      expect(errors).toEqual([]);
+      expect(parsed.nodes.sort()).toEqual([...data.nodes].sort());
+      expect(parsed.edges).toEqual(data.edges);
+    }
+  });
+
+  it('reports problems with their line', () => {
+    expect(parseGraph('graph {\n  a -- "b\n}', 'dot').errors[0]).toEqual({ line: 2, message: 'unterminated quoted string' });
+    expect(parseGraph('digraph { subgraph s { a } }', 'dot').errors[0].message).toBe('subgraphs are not supported');
+    expect(parseGraph('   ', 'json').errors).toEqual([{ message: 'nothing to import' }]);
+  });
+});
+
+describe('exportWarnings', () => {
+  it('warns about edges the matrix cannot hold', () => {
+    const data: GraphData = {
+      nodes: ['A', 'B'],
+      edges: [{ source: 'A', target: 'B', weight: 0 }, { source: 'B', target: 'A', weight: 2 }],
+      weighted: true,
+    };
+    expect(exportWarnings(data, 'matrix')).toHaveLength(2);
+    expect(exportWarnings({ ...data, directed: true }, 'matrix')).toHaveLength(1);
+    expect(exportWarnings(data, 'dot')).toEqual([]);
+  });
+});
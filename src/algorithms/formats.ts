@@ -0,0 +1,490 @@
+// Text formats for sharing graphs: JSON, edge list, adjacency matrix and a subset of Graphviz DOT
+
+import { defaultNodeName, isSameConnection, type GraphOptions } from './graph';
+
+export type GraphFormat = 'json' | 'edge-list' | 'matrix' | 'dot';
+
+export interface GraphData {
+  nodes: string[];
+  edges: { source: string; target: string; weight?: number }[];
+  // What the text says about the graph type; unset fields keep the current options
+  directed?: boolean;
+  weighted?: boolean;
+}
+
+export interface FormatError {
+  // 1-based line of the problem, when it can be pinned to one
+  line?: number;
+  message: string;
+}
+
+export interface ParseResult {
+  data: GraphData;
+  errors: FormatError[];
+}
+
+export const GRAPH_FORMATS: { id: GraphFormat; label: string; example: string; hint: string }[] = [
+  {
+    id: 'edge-list',
+    label: 'Edge list',
+    example: 'A B 4\nB "New York" 2\nD',
+    hint: 'One "source target [weight]" per line; a lone name adds a node. Names with spaces, commas or quotes go in double quotes.',
+  },
+  {
+    id: 'matrix',
+    label: 'Adjacency matrix',
+    example: '  A B C\nA 0 4 0\nB 4 0 2\nC 0 2 0',
+    hint: 'Header row of names, then one row per node, with 0 for no edge. Names with spaces, commas or quotes, and names that are numbers, go in double quotes.',
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    example: '{\n  "directed": false,\n  "nodes": ["A", "B"],\n  "links": [{ "source": "A", "target": "B", "weight": 4 }]\n}',
+    hint: 'Any node name works, and the graph type is kept.',
+  },
+  {
+    id: 'dot',
+    label: 'Graphviz DOT',
+    example: 'graph G {\n  A -- B [weight=4];\n  B -- C [label=2];\n}',
+    hint: 'Names other than plain identifiers and numbers go in double quotes, as in Graphviz.',
+  },
+];
+
+const isInteger = (token: string) => /^-?\d+$/.test(token);
+
+// Nodes are collected in order of first appearance
+const collect = (nodes: string[], ...ids: string[]) => {
+  ids.forEach(id => {
+    if (!nodes.includes(id)) nodes.push(id);
+  });
+};
+
+// Blank lines and lines starting with # or // are ignored
+const contentLines = (text: string) =>
+  text.split(/\r?\n/)
+    .map((content, i) => ({ line: i + 1, content: content.trim() }))
+    .filter(({ content }) => content !== '' && !content.startsWith('#') && !content.startsWith('//'));
+
+interface Token {
+  text: string;
+  // A quoted token is always a name, even when it spells a number
+  quoted: boolean;
+}
+
+// Values separated by spaces or commas; "double quotes" keep a name with spaces together, with \" and \\ escapes
+const splitTokens = (content: string): Token[] | string => {
+  const tokens: Token[] = [];
+  for (const [match] of content.matchAll(/"(?:[^"\\]|\\.)*"|[^\s,"]+|"/g)) {
+    if (match === '"') return 'unterminated quoted name';
+    const quoted = match.startsWith('"');
+    tokens.push({ text: quoted ? match.slice(1, -1).replace(/\\(.)/g, '$1') : match, quoted });
+  }
+  return tokens;
+};
+
+const isValue = (token: Token) => !token.quoted && isInteger(token.text);
+
+// Quotes names the tokenizer would split or misread; numbers: whether a bare number would be taken as a value
+const quoteName = (name: string, numbers = false) =>
+  name === '' || /[\s,"]/.test(name) || /^(#|\/\/)/.test(name) || (numbers && isInteger(name))
+    ? `"${name.replace(/["\\]/g, '\\$&')}"`
+    : name;
+
+// One edge per line as "source target [weight]"; a lone name adds an isolated node
+const parseEdgeList = (text: string): ParseResult => {
+  const data: GraphData = { nodes: [], edges: [] };
+  const errors: FormatError[] = [];
+  for (const { line, content } of contentLines(text)) {
+    const tokens = splitTokens(content);
+    if (typeof tokens === 'string') {
+      errors.push({ line, message: tokens });
+      continue;
+    }
+    if (tokens.length > 3) {
+      errors.push({ line, message: `expected "source target [weight]", found ${tokens.length} values` });
+      continue;
+    }
+    const [source, target] = tokens.map(t => t.text);
+    const weight = tokens[2]?.text;
+    if (tokens[2] && !isValue(tokens[2])) {
+      errors.push({ line, message: `weight "${weight}" is not a whole number` });
+      continue;
+    }
+    if (target === undefined) {
+      collect(data.nodes, source);
+      continue;
+    }
+    collect(data.nodes, source, target);
+    data.edges.push({ source, target, ...(weight !== undefined && { weight: Number(weight) }) });
+  }
+  if (data.edges.some(e => e.weight !== undefined)) data.weighted = true;
+  return { data, errors };
+};
+
+// The "# directed, weighted" line written on export, so the graph type survives cells that are all 0 or 1
+const MATRIX_TYPE = /^#\s*(directed|undirected)\s*,?\s*(weighted|unweighted)\s*$/i;
+
+// Square matrix with optional header row and row labels. 0 means no edge. Without a type line
+// an asymmetric matrix is read as directed and any value other than 0/1 as a weight.
+const parseMatrix = (text: string): ParseResult => {
+  const errors: FormatError[] = [];
+  const type = text.split(/\r?\n/).map(l => MATRIX_TYPE.exec(l.trim())).find(m => m !== null);
+  const lines: { line: number; tokens: Token[] }[] = [];
+  for (const { line, content } of contentLines(text)) {
+    const tokens = splitTokens(content);
+    if (typeof tokens === 'string') errors.push({ line, message: tokens });
+    else lines.push({ line, tokens });
+  }
+  if (errors.length > 0) return { data: { nodes: [], edges: [] }, errors };
+  // The header is recognizable by its names, or by being one shorter than labelled rows
+  const hasHeader = lines.length > 0 &&
+    (lines[0].tokens.every(t => !isValue(t)) || lines[1]?.tokens.length === lines[0].tokens.length + 1);
+  const header = hasHeader ? lines.shift()!.tokens.map(t => t.text) : null;
+  const size = header?.length ?? lines.length;
+  const labels: string[] = [];
+  const rows: number[][] = [];
+
+  for (const { line, tokens } of lines) {
+    const labelled = tokens.length === size + 1 && (header !== null || !isValue(tokens[0]));
+    const cells = labelled ? tokens.slice(1) : tokens;
+    if (cells.length !== size) {
+      errors.push({ line, message: `expected ${size} values, found ${cells.length}` });
+      continue;
+    }
+    const bad = cells.find(c => !isValue(c));
+    if (bad !== undefined) {
+      errors.push({ line, message: `"${bad.text}" is not a whole number` });
+      continue;
+    }
+    if (labelled) labels.push(tokens[0].text);
+    rows.push(cells.map(c => Number(c.text)));
+  }
+  if (errors.length === 0 && rows.length !== size) {
+    errors.push({ message: `the matrix has ${size} columns but ${rows.length} rows` });
+  }
+  if (errors.length === 0 && header && labels.length > 0 && labels.some((l, i) => l !== header[i])) {
+    errors.push({ message: 'row labels must match the header in the same order' });
+  }
+  const names = header ?? (labels.length === size ? labels : rows.map((_, i) => defaultNodeName(i)));
+  if (errors.length === 0 && new Set(names).size !== names.length) {
+    errors.push({ message: 'node names must be unique' });
+  }
+  const symmetric = rows.every((row, i) => row.every((value, j) => value === rows[j][i]));
+  const binary = rows.every(row => row.every(value => value === 0 || value === 1));
+  if (errors.length === 0 && type?.[1].toLowerCase() === 'undirected' && !symmetric) {
+    errors.push({ message: 'the matrix is marked undirected, so it must be symmetric' });
+  }
+  if (errors.length === 0 && type?.[2].toLowerCase() === 'unweighted' && !binary) {
+    errors.push({ message: 'the matrix is marked unweighted, so it can only hold 0 and 1' });
+  }
+  if (errors.length > 0) return { data: { nodes: [], edges: [] }, errors };
+
+  const directed = type ? type[1].toLowerCase() === 'directed' : !symmetric;
+  const data: GraphData = {
+    nodes: [...names],
+    edges: [],
+    directed,
+    weighted: type ? type[2].toLowerCase() === 'weighted' : !binary,
+  };
+  rows.forEach((row, i) => row.forEach((value, j) => {
+    if (value === 0 || (!directed && j < i)) return;
+    data.edges.push({ source: names[i], target: names[j], ...(data.weighted && { weight: value }) });
+  }));
+  return { data, errors };
+};
+
+// Reports JSON syntax errors on the line the parser stopped at
+const jsonErrorLine = (text: string, error: Error) => {
+  const line = /line (\d+)/.exec(error.message);
+  if (line) return Number(line[1]);
+  const position = /position (\d+)/.exec(error.message);
+  return position ? text.slice(0, Number(position[1])).split('\n').length : undefined;
+};
+
+// { "directed"?, "weighted"?, "nodes": [id | { id }], "links": [{ source, target, weight? }] }
+const parseJson = (text: string): ParseResult => {
+  const data: GraphData = { nodes: [], edges: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    // Some engines quote the whole input back in the message
+    const message = (error as Error).message.replace(/, ".*" is not valid JSON$/s, '');
+    return { data, errors: [{ line: jsonErrorLine(text, error as Error), message: `invalid JSON: ${message}` }] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { data, errors: [{ message: 'expected an object with "nodes" and "links"' }] };
+  }
+
+  const errors: FormatError[] = [];
+  const { nodes, links, directed, weighted } = parsed as Record<string, unknown>;
+  if (directed !== undefined && typeof directed !== 'boolean') errors.push({ message: '"directed" must be true or false' });
+  if (weighted !== undefined && typeof weighted !== 'boolean') errors.push({ message: '"weighted" must be true or false' });
+  if (!Array.isArray(nodes)) errors.push({ message: '"nodes" must be an array' });
+  if (links !== undefined && !Array.isArray(links)) errors.push({ message: '"links" must be an array' });
+  if (errors.length > 0) return { data, errors };
+
+  const idOf = (value: unknown): string | null => {
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    if (typeof value === 'object' && value !== null && 'id' in value) return idOf((value as { id: unknown }).id);
+    return null;
+  };
+  (nodes as unknown[]).forEach((node, i) => {
+    const id = idOf(node);
+    if (id === null) errors.push({ message: `nodes[${i}] needs a string or number id` });
+    else if (data.nodes.includes(id)) errors.push({ message: `nodes[${i}]: node ${id} is listed twice` });
+    else data.nodes.push(id);
+  });
+  ((links ?? []) as unknown[]).forEach((link, i) => {
+    if (typeof link !== 'object' || link === null) {
+      errors.push({ message: `links[${i}] must be an object with "source" and "target"` });
+      return;
+    }
+    const { source, target, weight } = link as Record<string, unknown>;
+    const ends = [idOf(source), idOf(target)];
+    if (ends.some(end => end === null)) {
+      errors.push({ message: `links[${i}] needs a "source" and a "target"` });
+      return;
+    }
+    const missing = ends.find(end => !data.nodes.includes(end!));
+    if (missing !== undefined) {
+      errors.push({ message: `links[${i}]: node ${missing} is not in "nodes"` });
+      return;
+    }
+    if (weight !== undefined && !Number.isInteger(weight)) {
+      errors.push({ message: `links[${i}]: weight must be a whole number` });
+      return;
+    }
+    data.edges.push({ source: ends[0]!, target: ends[1]!, ...(weight !== undefined && { weight: weight as number }) });
+  });
+
+  if (directed !== undefined) data.directed = directed as boolean;
+  data.weighted = weighted !== undefined ? (weighted as boolean) : data.edges.some(e => e.weight !== undefined) || undefined;
+  return { data, errors };
+};
+
+interface DotToken {
+  text: string;
+  line: number;
+  // Quoted strings are always identifiers, even when they spell a keyword
+  quoted: boolean;
+}
+
+const tokenizeDot = (text: string): { tokens: DotToken[]; errors: FormatError[] } => {
+  const tokens: DotToken[] = [];
+  const errors: FormatError[] = [];
+  const pattern = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|#[^\n]*|"(?:[^"\\]|\\.)*"|->|--|[{}[\];,=]|-?\d+(?:\.\d+)?|[\w.\u0080-\uffff]+|\s+|\S/g;
+  let line = 1;
+  for (const [match] of text.matchAll(pattern)) {
+    const start = line;
+    line += match.split('\n').length - 1;
+    if (/^\s/.test(match) || match.startsWith('/*') || match.startsWith('//') || match.startsWith('#')) continue;
+    if (match === '"') {
+      errors.push({ line: start, message: 'unterminated quoted string' });
+      continue;
+    }
+    const quoted = match.startsWith('"');
+    tokens.push({ text: quoted ? match.slice(1, -1).replace(/\\(["\\])/g, '$1') : match, line: start, quoted });
+  }
+  return { tokens, errors };
+};
+
+// graph/digraph with node statements, edge chains and [weight=n] or [label=n] attributes.
+// Graph, node and edge defaults are accepted and ignored; subgraphs are not supported.
+const parseDot = (text: string): ParseResult => {
+  const data: GraphData = { nodes: [], edges: [] };
+  const { tokens, errors } = tokenizeDot(text);
+  let position = 0;
+  const peek = () => tokens[position];
+  const lastLine = () => tokens[tokens.length - 1]?.line ?? 1;
+  const isKeyword = (token: DotToken | undefined, ...words: string[]) =>
+    token !== undefined && !token.quoted && words.includes(token.text.toLowerCase());
+  const isId = (token: DotToken | undefined) =>
+    token !== undefined && (token.quoted || /^(-?\d+(\.\d+)?|[\w.\u0080-\uffff]+)$/.test(token.text));
+  const fail = (message: string, token = peek()): ParseResult => ({
+    data,
+    errors: [...errors, { line: token?.line ?? lastLine(), message }],
+  });
+
+  if (isKeyword(peek(), 'strict')) position++;
+  if (!isKeyword(peek(), 'graph', 'digraph')) return fail('expected "graph" or "digraph"');
+  data.directed = tokens[position++].text.toLowerCase() === 'digraph';
+  const edgeOp = data.directed ? '->' : '--';
+  if (isId(peek())) position++;
+  if (peek()?.text !== '{') return fail('expected "{" to open the graph body');
+  position++;
+
+  // [key=value, ...] lists; returns the attributes or an error message
+  const readAttributes = (): Map<string, DotToken> | string => {
+    const attributes = new Map<string, DotToken>();
+    while (peek()?.text === '[') {
+      position++;
+      while (peek() && peek().text !== ']') {
+        const key = peek();
+        if (!isId(key) || tokens[position + 1]?.text !== '=' || !isId(tokens[position + 2])) {
+          return 'expected key=value inside [ ]';
+        }
+        attributes.set(key.text, tokens[position + 2]);
+        position += 3;
+        if (peek()?.text === ',' || peek()?.text === ';') position++;
+      }
+      if (!peek()) return 'missing "]"';
+      position++;
+    }
+    return attributes;
+  };
+
+  while (peek() && peek().text !== '}') {
+    const first = peek();
+    if (first.text === ';') {
+      position++;
+      continue;
+    }
+    if (isKeyword(first, 'subgraph') || first.text === '{') return fail('subgraphs are not supported');
+    if (isKeyword(first, 'graph', 'node', 'edge')) {
+      position++;
+      const attributes = readAttributes();
+      if (typeof attributes === 'string') return fail(attributes);
+      continue;
+    }
+    if (!isId(first)) return fail(`unexpected "${first.text}"`);
+
+    // Graph attribute such as rankdir=LR
+    if (tokens[position + 1]?.text === '=') {
+      if (!isId(tokens[position + 2])) return fail('expected a value after "="', tokens[position + 1]);
+      position += 3;
+      continue;
+    }
+
+    const chain = [first.text];
+    position++;
+    while (peek()?.text === '->' || peek()?.text === '--') {
+      if (peek().text !== edgeOp) {
+        return fail(`"${peek().text}" cannot be used in a ${data.directed ? 'digraph' : 'graph'}; use "${edgeOp}"`);
+      }
+      position++;
+      if (!isId(peek())) return fail(`expected a node after "${edgeOp}"`);
+      chain.push(tokens[position++].text);
+    }
+    const attributes = readAttributes();
+    if (typeof attributes === 'string') return fail(attributes);
+    collect(data.nodes, ...chain);
+
+    // A numeric label stands in for a missing weight; other labels are ignored
+    const weightToken = attributes.get('weight');
+    if (chain.length > 1 && weightToken && !isInteger(weightToken.text)) {
+      errors.push({ line: weightToken.line, message: `weight "${weightToken.text}" is not a whole number` });
+    }
+    const numeric = [weightToken, attributes.get('label')].find(t => t && isInteger(t.text));
+    const weight = numeric ? Number(numeric.text) : undefined;
+    for (let i = 1; i < chain.length; i++) {
+      data.edges.push({ source: chain[i - 1], target: chain[i], ...(weight !== undefined && { weight }) });
+    }
+  }
+
+  if (!peek()) return fail('missing "}" at the end of the graph');
+  position++;
+  if (peek()) return fail('unexpected text after the closing "}"');
+  if (data.edges.some(e => e.weight !== undefined)) data.weighted = true;
+  return { data, errors };
+};
+
+export const parseGraph = (text: string, format: GraphFormat): ParseResult => {
+  if (text.trim() === '') return { data: { nodes: [], edges: [] }, errors: [{ message: 'nothing to import' }] };
+  switch (format) {
+    case 'edge-list':
+      return parseEdgeList(text);
+    case 'matrix':
+      return parseMatrix(text);
+    case 'json':
+      return parseJson(text);
+    case 'dot':
+      return parseDot(text);
+  }
+};
+
+// Options that can hold the imported graph: the text decides direction and weights when it
+// says so, and self-loops or parallel edges are switched on if the graph has them
+export const importOptions = (data: GraphData, current: GraphOptions): GraphOptions => {
+  const directed = data.directed ?? current.directed;
+  return {
+    directed,
+    weighted: data.weighted ?? current.weighted,
+    allowSelfLoops: current.allowSelfLoops || data.edges.some(e => e.source === e.target),
+    allowMultiEdges: current.allowMultiEdges ||
+      data.edges.some((e, i) => data.edges.slice(0, i).some(earlier => isSameConnection(earlier, e, directed))),
+  };
+};
+
+// Keywords are matched in any case, so a node named Node or EDGE is quoted too
+const DOT_KEYWORDS = ['graph', 'digraph', 'node', 'edge', 'strict', 'subgraph'];
+
+const dotId = (id: string) =>
+  /^[A-Za-z_][A-Za-z_0-9]*$|^-?\d+$/.test(id) && !DOT_KEYWORDS.includes(id.toLowerCase())
+    ? id
+    : `"${id.replace(/["\\]/g, '\\$&')}"`;
+
+export const serializeGraph = (data: GraphData, format: GraphFormat): string => {
+  const { nodes, edges, directed = false, weighted = false } = data;
+  switch (format) {
+    case 'edge-list': {
+      const connected = new Set(edges.flatMap(e => [e.source, e.target]));
+      return [
+        ...edges.map(e => [quoteName(e.source), quoteName(e.target), ...(weighted ? [e.weight ?? 1] : [])].join(' ')),
+        ...nodes.filter(n => !connected.has(n)).map(n => quoteName(n)),
+      ].join('\n');
+    }
+    case 'matrix': {
+      // A cell holds one edge, so of several parallel edges only the first is kept
+      const cells = nodes.map(() => nodes.map(() => 0));
+      for (const e of [...edges].reverse()) {
+        const i = nodes.indexOf(e.source);
+        const j = nodes.indexOf(e.target);
+        const value = weighted ? e.weight ?? 1 : 1;
+        cells[i][j] = value;
+        if (!directed) cells[j][i] = value;
+      }
+      const names = nodes.map(n => quoteName(n, true));
+      const width = Math.max(...names.map(n => n.length), ...cells.flat().map(c => String(c).length));
+      const pad = (value: string | number) => String(value).padStart(width);
+      return [
+        `# ${directed ? 'directed' : 'undirected'}, ${weighted ? 'weighted' : 'unweighted'}`,
+        [pad(''), ...names.map(pad)].join(' '),
+        ...cells.map((row, i) => [pad(names[i]), ...row.map(pad)].join(' ')),
+      ].join('\n');
+    }
+    case 'json':
+      return JSON.stringify({
+        directed,
+        weighted,
+        nodes,
+        links: edges.map(e => ({ source: e.source, target: e.target, ...(weighted && { weight: e.weight ?? 1 }) })),
+      }, null, 2);
+    case 'dot': {
+      // Every node is declared up front so the node order survives a round trip
+      const op = directed ? '->' : '--';
+      return [
+        `${directed ? 'digraph' : 'graph'} G {`,
+        ...nodes.map(n => `  ${dotId(n)};`),
+        ...edges.map(e => `  ${dotId(e.source)} ${op} ${dotId(e.target)}${weighted ? ` [weight=${e.weight ?? 1}]` : ''};`),
+        '}',
+      ].join('\n');
+    }
+  }
+};
+
+// Edges the format cannot hold, which an export would silently drop
+export const exportWarnings = (data: GraphData, format: GraphFormat): string[] => {
+  if (format !== 'matrix') return [];
+  const { edges, directed = false, weighted = false } = data;
+  const warnings: string[] = [];
+  const zero = weighted ? edges.filter(e => (e.weight ?? 1) === 0).length : 0;
+  if (zero > 0) {
+    warnings.push(`${zero} edge${zero === 1 ? ' has' : 's have'} weight 0, which the matrix writes as "no edge", so ${zero === 1 ? 'it is' : 'they are'} left out. Use the edge list, JSON or DOT to keep ${zero === 1 ? 'it' : 'them'}.`);
+  }
+  const parallel = edges.filter((e, i) => edges.slice(0, i).some(earlier => isSameConnection(earlier, e, directed))).length;
+  if (parallel > 0) {
+    warnings.push(`${parallel} parallel edge${parallel === 1 ? ' shares' : 's share'} a cell with an earlier edge and ${parallel === 1 ? 'is' : 'are'} left out.`);
+  }
+  return warnings;
+};
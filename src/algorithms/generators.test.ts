@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphData } from './formats';
+import { generateGraph, GRAPH_GENERATORS, MAX_GENERATED_NODES, seededRandom } from './generators';
+import { UnionFind } from './mst';
+
+const generator = (id: string) => GRAPH_GENERATORS.find(g => g.id === id)!;
+const options = { size: 12, probability: 0.3, weighted: true, seed: 42 };
+
+const isConnected = ({ nodes, edges }: GraphData) => {
+  const sets = new UnionFind(nodes);
+  edges.forEach(e => sets.union(e.source, e.target));
+  return nodes.every(n => sets.find(n) === sets.find(nodes[0]));
+};
+
+describe('seededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const draw = (seed: number) => Array.from({ length: 5 }, seededRandom(seed));
+    expect(draw(7)).toEqual(draw(7));
+    expect(draw(7)).not.toEqual(draw(8));
+    expect(draw(7).every(x => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe('generateGraph', () => {
+  it.each(GRAPH_GENERATORS.map(g => [g.id, g] as const))('%s rebuilds the same graph from the same seed', (_, g) => {
+    expect(generateGraph(g, options)).toEqual(generateGraph(g, options));
+  });
+
+  it('clamps the size to the preset minimum and the global maximum', () => {
+    expect(generateGraph(generator('cycle'), { ...options, size: 1 }).nodes).toHaveLength(3);
+    expect(generateGraph(generator('tree'), { ...options, size: 500 }).nodes).toHaveLength(MAX_GENERATED_NODES);
+  });
+
+  it('draws weights only when asked, unless the preset always has them', () => {
+    const unweighted = { ...options, weighted: false };
+    expect(generateGraph(generator('gnp'), unweighted).edges.every(e => e.weight === undefined)).toBe(true);
+    const weights = generateGraph(generator('connected-weighted'), unweighted).edges.map(e => e.weight!);
+    expect(weights.every(w => w >= 1 && w <= 9)).toBe(true);
+  });
+
+  it('builds connected trees with n - 1 edges', () => {
+    for (const id of ['tree', 'connected-weighted']) {
+      const data = generateGraph(generator(id), { ...options, probability: 0 });
+      expect(data.edges).toHaveLength(data.nodes.length - 1);
+      expect(isConnected(data)).toBe(true);
+    }
+  });
+
+  it('keeps DAG edges acyclic and bipartite edges across the halves', () => {
+    const dag = generateGraph(generator('dag'), { ...options, probability: 0.5 });
+    expect(dag.directed).toBe(true);
+    // Repeatedly removing sources empties an acyclic graph
+    let edges = dag.edges;
+    let nodes = dag.nodes;
+    while (nodes.length > 0) {
+      const sources = nodes.filter(n => !edges.some(e => e.target === n));
+      expect(sources.length).toBeGreaterThan(0);
+      nodes = nodes.filter(n => !sources.includes(n));
+      edges = edges.filter(e => !sources.includes(e.source));
+    }
+
+    const bipartite = generateGraph(generator('bipartite'), { ...options, probability: 0.5 });
+    const left = new Set(bipartite.nodes.slice(0, bipartite.nodes.length / 2));
+    expect(bipartite.edges.every(e => left.has(e.source) !== left.has(e.target))).toBe(true);
+  });
+
+  it('lays out the grid with right and lower neighbors', () => {
+    // 9 nodes in rows of 3: 6 horizontal and 6 vertical links
+    expect(generateGraph(generator('grid'), { ...options, size: 9 }).edges).toHaveLength(12);
+  });
+});
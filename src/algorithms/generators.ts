@@ -0,0 +1,185 @@
+// Random graph presets. Every generator draws from a seeded generator, so the same
+// preset, size and seed always rebuild the same graph.
+
+import type { GraphData } from './formats';
+import { defaultNodeName } from './graph';
+
+export interface GeneratorOptions {
+  size: number;
+  // Edge probability for the presets that flip a coin per pair
+  probability: number;
+  weighted: boolean;
+  seed: number;
+}
+
+export interface GraphGenerator {
+  id: string;
+  label: string;
+  usesProbability?: boolean;
+  directed?: boolean;
+  // Always produces weights, whatever the weighted option says
+  alwaysWeighted?: boolean;
+  // Smallest size that makes sense for the preset
+  minSize: number;
+  generate: (options: GeneratorOptions, random: () => number) => GraphData;
+}
+
+export const MAX_GENERATED_NODES = 100;
+
+// mulberry32: small, fast and good enough for picking edges
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const names = (size: number) => Array.from({ length: size }, (_, i) => defaultNodeName(i));
+
+// Weights 1-9, drawn per edge in edge order
+const build = (
+  nodes: string[],
+  pairs: [number, number][],
+  { weighted, directed }: { weighted: boolean; directed: boolean },
+  random: () => number
+): GraphData => ({
+  nodes,
+  edges: pairs.map(([i, j]) => ({
+    source: nodes[i],
+    target: nodes[j],
+    ...(weighted && { weight: 1 + Math.floor(random() * 9) }),
+  })),
+  directed,
+  weighted,
+});
+
+// Each new node hangs off a uniformly chosen earlier node
+const treePairs = (size: number, random: () => number): [number, number][] =>
+  Array.from({ length: size - 1 }, (_, k) => [Math.floor(random() * (k + 1)), k + 1]);
+
+export const GRAPH_GENERATORS: GraphGenerator[] = [
+  {
+    id: 'gnp',
+    label: 'Random G(n, p)',
+    usesProbability: true,
+    minSize: 1,
+    generate: ({ size, probability, weighted }, random) => {
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) {
+          if (random() < probability) pairs.push([i, j]);
+        }
+      }
+      return build(names(size), pairs, { weighted, directed: false }, random);
+    },
+  },
+  {
+    id: 'complete',
+    label: 'Complete',
+    minSize: 1,
+    generate: ({ size, weighted }, random) => {
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) pairs.push([i, j]);
+      }
+      return build(names(size), pairs, { weighted, directed: false }, random);
+    },
+  },
+  {
+    id: 'cycle',
+    label: 'Cycle',
+    minSize: 3,
+    generate: ({ size, weighted }, random) =>
+      build(names(size), Array.from({ length: size }, (_, i) => [i, (i + 1) % size]), { weighted, directed: false }, random),
+  },
+  {
+    id: 'grid',
+    label: 'Grid',
+    minSize: 1,
+    // Rows of ceil(√n) nodes, each linked to its right and lower neighbor
+    generate: ({ size, weighted }, random) => {
+      const columns = Math.ceil(Math.sqrt(size));
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        if ((i + 1) % columns !== 0 && i + 1 < size) pairs.push([i, i + 1]);
+        if (i + columns < size) pairs.push([i, i + columns]);
+      }
+      return build(names(size), pairs, { weighted, directed: false }, random);
+    },
+  },
+  {
+    id: 'tree',
+    label: 'Random tree',
+    minSize: 1,
+    generate: ({ size, weighted }, random) =>
+      build(names(size), treePairs(size, random), { weighted, directed: false }, random),
+  },
+  {
+    id: 'dag',
+    label: 'Random DAG',
+    usesProbability: true,
+    directed: true,
+    minSize: 1,
+    // Edges only run forward in a shuffled order, so no cycle can form
+    generate: ({ size, probability, weighted }, random) => {
+      const order = Array.from({ length: size }, (_, i) => i);
+      for (let i = size - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) {
+          if (random() < probability) pairs.push([order[i], order[j]]);
+        }
+      }
+      return build(names(size), pairs, { weighted, directed: true }, random);
+    },
+  },
+  {
+    id: 'bipartite',
+    label: 'Random bipartite',
+    usesProbability: true,
+    minSize: 2,
+    // The first half of the nodes forms the left side
+    generate: ({ size, probability, weighted }, random) => {
+      const half = Math.ceil(size / 2);
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < half; i++) {
+        for (let j = half; j < size; j++) {
+          if (random() < probability) pairs.push([i, j]);
+        }
+      }
+      return build(names(size), pairs, { weighted, directed: false }, random);
+    },
+  },
+  {
+    id: 'connected-weighted',
+    label: 'Connected weighted',
+    usesProbability: true,
+    alwaysWeighted: true,
+    minSize: 1,
+    // A random spanning tree keeps it connected; the probability adds extra edges on top
+    generate: ({ size, probability }, random) => {
+      const pairs = treePairs(size, random);
+      const linked = new Set(pairs.map(([i, j]) => `${i}-${j}`));
+      for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) {
+          if (!linked.has(`${i}-${j}`) && random() < probability) pairs.push([i, j]);
+        }
+      }
+      return build(names(size), pairs, { weighted: true, directed: false }, random);
+    },
+  },
+];
+
+export const generateGraph = (generator: GraphGenerator, options: GeneratorOptions): GraphData => {
+  const size = Math.max(generator.minSize, Math.min(MAX_GENERATED_NODES, Math.floor(options.size)));
+  return generator.generate({ ...options, size }, seededRandom(options.seed));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { graphOf } from '../test/graphs';
+import { findEdgeConflicts, getArcs, getNeighbors, isSameConnection, type GraphOptions } from './graph';
+
+const options = (changes: Partial<GraphOptions> = {}): GraphOptions => ({
+  directed: false,
+  weighted: false,
+  allowSelfLoops: false,
+  allowMultiEdges: false,
+  ...changes,
+});
+
+describe('getNeighbors and getArcs', () => {
+  it('follow undirected edges both ways and directed edges forwards', () => {
+    const undirected = graphOf('A-B B-C');
+    expect(getNeighbors(undirected, 'B').map(n => n.node)).toEqual(['A', 'C']);
+    expect(getArcs(undirected).map(a => `${a.from}${a.to}`)).toEqual(['AB', 'BA', 'BC', 'CB']);
+
+    const directed = graphOf('A-B B-C', { directed: true });
+    expect(getNeighbors(directed, 'B').map(n => n.node)).toEqual(['C']);
+    expect(getArcs(directed).map(a => `${a.from}${a.to}`)).toEqual(['AB', 'BC']);
+  });
+
+  it('lists a self-loop once', () => {
+    const graph = graphOf('A-A');
+    expect(getNeighbors(graph, 'A').map(n => n.node)).toEqual(['A']);
+    expect(getArcs(graph)).toHaveLength(1);
+  });
+});
+
+describe('isSameConnection', () => {
+  it('ignores direction only in undirected graphs', () => {
+    const ab = { source: 'A', target: 'B' };
+    const ba = { source: 'B', target: 'A' };
+    expect(isSameConnection(ab, ba, false)).toBe(true);
+    expect(isSameConnection(ab, ba, true)).toBe(false);
+  });
+});
+
+describe('findEdgeConflicts', () => {
+  const edges = [
+    { source: 'A', target: 'B' },
+    { source: 'B', target: 'A' },
+    { source: 'C', target: 'C' },
+    { source: 'A', target: 'B' },
+  ];
+
+  it('flags self-loops and repeats of an earlier edge', () => {
+    expect(findEdgeConflicts(edges, options()).map(c => c.index)).toEqual([1, 2, 3]);
+    expect(findEdgeConflicts(edges, options({ directed: true })).map(c => c.index)).toEqual([2, 3]);
+  });
+
+  it('allows what the options switch on', () => {
+    expect(findEdgeConflicts(edges, options({ allowSelfLoops: true, allowMultiEdges: true }))).toEqual([]);
+    expect(findEdgeConflicts(edges, options({ allowMultiEdges: true }))).toEqual([{ index: 2, reason: 'C-C is a self-loop' }]);
+  });
+});
@@ -0,0 +1,98 @@
+// Plain graph model the algorithms run on, independent of d3 and React
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface Graph {
+  nodes: string[];
+  edges: GraphEdge[];
+  directed: boolean;
+  weighted: boolean;
+}
+
+export interface Neighbor {
+  node: string;
+  edge: GraphEdge;
+}
+
+// Names handed out to nodes nobody named: A-Z, then N1, N2, ...
+export const defaultNodeName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : `N${index - 25}`;
+
+// d3's forceLink replaces link endpoints with node objects, so accept both
+export const endpointId = (end: string | { id: string }): string =>
+  typeof end === 'string' ? end : end.id;
+
+// Outgoing neighbors in edge insertion order (both directions when undirected)
+export const getNeighbors = (graph: Graph, nodeId: string): Neighbor[] => {
+  const result: Neighbor[] = [];
+  for (const edge of graph.edges) {
+    if (edge.source === nodeId) {
+      result.push({ node: edge.target, edge });
+    } else if (!graph.directed && edge.target === nodeId) {
+      result.push({ node: edge.source, edge });
+    }
+  }
+  return result;
+};
+
+export interface Arc {
+  from: string;
+  to: string;
+  edge: GraphEdge;
+}
+
+// Every traversable direction of every edge; undirected edges yield two arcs
+export const getArcs = (graph: Graph): Arc[] =>
+  graph.edges.flatMap(edge => {
+    const forward = { from: edge.source, to: edge.target, edge };
+    return graph.directed || edge.source === edge.target
+      ? [forward]
+      : [forward, { from: edge.target, to: edge.source, edge }];
+  });
+
+// How the graph builder interprets and validates edges
+export interface GraphOptions {
+  directed: boolean;
+  weighted: boolean;
+  allowSelfLoops: boolean;
+  allowMultiEdges: boolean;
+}
+
+export const isSameConnection = (
+  a: { source: string; target: string },
+  b: { source: string; target: string },
+  directed: boolean
+): boolean =>
+  (a.source === b.source && a.target === b.target) ||
+  (!directed && a.source === b.target && a.target === b.source);
+
+export interface EdgeConflict {
+  index: number;
+  reason: string;
+}
+
+// Edges that break the options: disallowed self-loops, and repeats of an earlier edge
+// when parallel edges are disallowed. The first of a group of parallel edges is kept.
+export const findEdgeConflicts = (
+  edges: { source: string; target: string }[],
+  options: GraphOptions
+): EdgeConflict[] => {
+  const conflicts: EdgeConflict[] = [];
+  edges.forEach((edge, index) => {
+    const name = `${edge.source}${options.directed ? '→' : '-'}${edge.target}`;
+    if (!options.allowSelfLoops && edge.source === edge.target) {
+      conflicts.push({ index, reason: `${name} is a self-loop` });
+    } else if (
+      !options.allowMultiEdges &&
+      edges.slice(0, index).some(earlier => isSameConnection(earlier, edge, options.directed))
+    ) {
+      conflicts.push({ index, reason: `${name} duplicates an earlier edge` });
+    }
+  });
+  return conflicts;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { graphOf } from '../test/graphs';
+import { computeLayout, type Point } from './layout';
+
+const box = { width: 800, height: 600, margin: 50 };
+// Node ids grouped by row, top to bottom and left to right
+const rows = (positions: Map<string, Point>) => {
+  const sorted = [...positions].sort(([, a], [, b]) => a.y - b.y || a.x - b.x);
+  const ys = [...new Set(sorted.map(([, p]) => p.y))];
+  return ys.map(y => sorted.filter(([, p]) => p.y === y).map(([id]) => id));
+};
+
+describe('computeLayout', () => {
+  it('leaves the force layout to d3 and places nothing for an empty graph', () => {
+    expect(computeLayout('force', graphOf('A-B'), box)).toBeNull();
+    expect(computeLayout('circular', graphOf('', { nodes: [] }), box)).toEqual(new Map());
+  });
+
+  it('puts circular nodes on one circle, starting at the top', () => {
+    const positions = computeLayout('circular', graphOf('A-B B-C C-D'), box)!;
+    expect(positions.get('A')).toEqual({ x: 400, y: 50 });
+    for (const { x, y } of positions.values()) expect(Math.hypot(x - 400, y - 300)).toBeCloseTo(250);
+  });
+
+  it('fills the grid row by row inside the margins', () => {
+    const positions = computeLayout('grid', graphOf('', { nodes: ['A', 'B', 'C', 'D', 'E'] }), box)!;
+    expect(rows(positions)).toEqual([['A', 'B', 'C'], ['D', 'E']]);
+    for (const { x, y } of positions.values()) {
+      expect(x).toBeGreaterThan(50);
+      expect(x).toBeLessThan(750);
+      expect(y).toBeGreaterThan(50);
+      expect(y).toBeLessThan(550);
+    }
+  });
+
+  it('layers a DAG by longest path and other graphs by BFS level from the root', () => {
+    const dag = graphOf('A-B B-C A-C', { directed: true });
+    expect(rows(computeLayout('hierarchical', dag, box)!)).toEqual([['A'], ['B'], ['C']]);
+    const cycle = graphOf('A-B B-C C-D D-A');
+    expect(rows(computeLayout('hierarchical', cycle, box, 'C')!)).toEqual([['C'], ['B', 'D'], ['A']]);
+  });
+
+  it('splits a bipartite graph into two columns', () => {
+    const positions = computeLayout('bipartite', graphOf('A-X A-Y B-Y'), box)!;
+    const column = (ids: string[]) => new Set(ids.map(id => positions.get(id)!.x));
+    expect(column(['A', 'B'])).toEqual(new Set([240]));
+    expect(column(['X', 'Y'])).toEqual(new Set([560]));
+  });
+});
@@ -0,0 +1,156 @@
+// Fixed node placements for the graph canvases. Positions are in the SVG's viewBox units;
+// the force layout is left to d3 and has no entry here.
+
+import { getNeighbors, type Graph } from './graph';
+
+export type LayoutKind = 'force' | 'circular' | 'hierarchical' | 'grid' | 'bipartite';
+
+export const LAYOUTS: { id: LayoutKind; label: string }[] = [
+  { id: 'force', label: 'Force' },
+  { id: 'circular', label: 'Circular' },
+  { id: 'hierarchical', label: 'Hierarchical' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'bipartite', label: 'Bipartite' },
+];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Area the layout may use, inside the canvas margins
+export interface LayoutBox {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+// Evenly spaced positions along a line from a to b, with half a gap at either end
+const spread = (count: number, from: number, to: number) =>
+  Array.from({ length: count }, (_, i) => from + ((i + 0.5) * (to - from)) / count);
+
+const circular = (graph: Graph, { width, height, margin }: LayoutBox) => {
+  const radius = Math.min(width, height) / 2 - margin;
+  const n = graph.nodes.length;
+  return new Map(graph.nodes.map((id, i): [string, Point] => {
+    // Start at the top and go clockwise
+    const angle = (2 * Math.PI * i) / n - Math.PI / 2;
+    return [id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) }];
+  }));
+};
+
+const grid = (graph: Graph, { width, height, margin }: LayoutBox) => {
+  const columns = Math.ceil(Math.sqrt(graph.nodes.length));
+  const rows = Math.ceil(graph.nodes.length / columns);
+  const xs = spread(columns, margin, width - margin);
+  const ys = spread(rows, margin, height - margin);
+  return new Map(graph.nodes.map((id, i): [string, Point] => [id, { x: xs[i % columns], y: ys[Math.floor(i / columns)] }]));
+};
+
+// Layers ignore edge direction so every node lands next to a neighbor
+const undirected = (graph: Graph): Graph => ({ ...graph, directed: false });
+
+// BFS levels from the root, restarting at level 0 for every unreached component
+const bfsLevels = (graph: Graph, root: string | undefined) => {
+  const level = new Map<string, number>();
+  const roots = root ? [root, ...graph.nodes.filter(n => n !== root)] : graph.nodes;
+  for (const start of roots) {
+    if (level.has(start)) continue;
+    level.set(start, 0);
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const { node } of getNeighbors(undirected(graph), current)) {
+        if (level.has(node)) continue;
+        level.set(node, level.get(current)! + 1);
+        queue.push(node);
+      }
+    }
+  }
+  return level;
+};
+
+// Longest path from a source; null when a cycle makes the layers undefined
+const dagLevels = (graph: Graph) => {
+  const indegree = new Map(graph.nodes.map(n => [n, 0]));
+  graph.edges.forEach(e => indegree.set(e.target, indegree.get(e.target)! + 1));
+  const level = new Map(graph.nodes.map(n => [n, 0]));
+  const queue = graph.nodes.filter(n => indegree.get(n) === 0);
+  let seen = 0;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    seen++;
+    for (const { node } of getNeighbors(graph, current)) {
+      level.set(node, Math.max(level.get(node)!, level.get(current)! + 1));
+      indegree.set(node, indegree.get(node)! - 1);
+      if (indegree.get(node) === 0) queue.push(node);
+    }
+  }
+  return seen === graph.nodes.length ? level : null;
+};
+
+// Layers top to bottom: DAGs by longest path, everything else by BFS level from the root.
+// Within a layer, nodes sit near the average position of their neighbors one layer up.
+const hierarchical = (graph: Graph, box: LayoutBox, root?: string) => {
+  const level = (graph.directed ? dagLevels(graph) : null) ?? bfsLevels(graph, root);
+  const depth = Math.max(0, ...level.values()) + 1;
+  const layers: string[][] = Array.from({ length: depth }, () => []);
+  graph.nodes.forEach(n => layers[level.get(n)!].push(n));
+
+  const ys = spread(depth, box.margin, box.height - box.margin);
+  const positions = new Map<string, Point>();
+  layers.forEach((layer, l) => {
+    if (l > 0) {
+      // Nodes without a neighbor one layer up keep their order at the end
+      const anchor = (n: string) => {
+        const xs = getNeighbors(undirected(graph), n)
+          .filter(nb => level.get(nb.node) === l - 1)
+          .map(nb => positions.get(nb.node)!.x);
+        return xs.length > 0 ? xs.reduce((sum, x) => sum + x, 0) / xs.length : box.width;
+      };
+      const anchors = new Map(layer.map(n => [n, anchor(n)]));
+      layer.sort((a, b) => anchors.get(a)! - anchors.get(b)!);
+    }
+    const xs = spread(layer.length, box.margin, box.width - box.margin);
+    layer.forEach((n, i) => positions.set(n, { x: xs[i], y: ys[l] }));
+  });
+  return positions;
+};
+
+// Two columns at 30% and 70% of the width, each evenly spaced top to bottom
+export const twoColumnLayout = (left: string[], right: string[], { width, height, margin }: LayoutBox) => {
+  const positions = new Map<string, Point>();
+  const place = (column: string[], x: number) => {
+    const ys = spread(column.length, margin, height - margin);
+    column.forEach((id, i) => positions.set(id, { x, y: ys[i] }));
+  };
+  place(left, width * 0.3);
+  place(right, width * 0.7);
+  return positions;
+};
+
+// Even BFS levels on the left, odd on the right: the 2-coloring when the graph is bipartite
+const bipartite = (graph: Graph, box: LayoutBox, root?: string) => {
+  const level = bfsLevels(graph, root);
+  return twoColumnLayout(
+    graph.nodes.filter(n => level.get(n)! % 2 === 0),
+    graph.nodes.filter(n => level.get(n)! % 2 === 1),
+    box
+  );
+};
+
+export const computeLayout = (kind: LayoutKind, graph: Graph, box: LayoutBox, root?: string): Map<string, Point> | null => {
+  if (graph.nodes.length === 0) return new Map();
+  switch (kind) {
+    case 'force':
+      return null;
+    case 'circular':
+      return circular(graph, box);
+    case 'grid':
+      return grid(graph, box);
+    case 'hierarchical':
+      return hierarchical(graph, box, root);
+    case 'bipartite':
+      return bipartite(graph, box, root);
+  }
+};
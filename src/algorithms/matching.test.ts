@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf } from '../test/graphs';
+import { findBipartition } from './coloring';
+import { seededRandom } from './generators';
+import type { Graph } from './graph';
+import { hopcroftKarp, resolveSides } from './matching';
+import type { Step } from './types';
+
+// Random bipartite graph between l0..l(n-1) and r0..r(n-1)
+const randomBipartite = (seed: number, size: number, density: number): Graph => {
+  const random = seededRandom(seed);
+  const pairs: string[] = [];
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      if (random() < density) pairs.push(`l${i}-r${j}`);
+    }
+  }
+  const nodes = Array.from({ length: size }, (_, i) => [`l${i}`, `r${i}`]).flat();
+  return graphOf(pairs.join(' '), { weighted: false, nodes });
+};
+
+// Maximum matching size by simple augmenting paths, as a reference
+const maximumMatching = (graph: Graph, left: string[]) => {
+  const mate = new Map<string, string>();
+  const tryNode = (u: string, seen: Set<string>): boolean =>
+    graph.edges.some(e => {
+      const v = e.source === u ? e.target : e.target === u ? e.source : null;
+      if (v === null || left.includes(v) || seen.has(v)) return false;
+      seen.add(v);
+      if (mate.has(v) && !tryNode(mate.get(v)!, seen)) return false;
+      mate.set(v, u);
+      return true;
+    });
+  return left.filter(u => tryNode(u, new Set())).length;
+};
+
+// Nodes of each augmenting path, grouped by phase
+const pathsByPhase = (steps: Step[]) => {
+  const phases: string[][][] = [];
+  for (const { narration } of steps) {
+    if (/^Phase \d+: BFS/.test(narration)) phases.push([]);
+    const path = /^Augmenting path (.+?) (alternates|is a single)/.exec(narration);
+    if (path) phases[phases.length - 1].push(path[1].split(' → '));
+  }
+  return phases;
+};
+
+describe('resolveSides', () => {
+  it('uses the marked nodes as the left side, or a 2-coloring', () => {
+    const graph = graphOf('a-x b-x b-y');
+    expect(resolveSides(graph, ['a', 'b'])).toEqual({ left: ['a', 'b'], right: ['x', 'y'] });
+    expect(resolveSides(graph)).toEqual(findBipartition(graph));
+    expect(resolveSides(graphOf('A-B B-C C-A'))).toBeNull();
+  });
+});
+
+describe('hopcroftKarp', () => {
+  it('finds a perfect matching when one exists', () => {
+    const graph = graphOf('a-x a-y b-x c-y c-z', { weighted: false });
+    const frame = finalFrame(hopcroftKarp(graph, ['a', 'b', 'c']));
+    expect(frame.metrics['Matching size']).toBe(3);
+    expect(frame.lists.Matching.sort()).toEqual(['a-y', 'b-x', 'c-z']);
+    expect(edgesWith(frame, 'path')).toEqual(['1', '2', '4']);
+  });
+
+  it('ignores edges between nodes on the same side', () => {
+    const frame = finalFrame(hopcroftKarp(graphOf('a-b a-x', { weighted: false }), ['a', 'b']));
+    expect(frame.metrics['Matching size']).toBe(1);
+    expect(frame.edges['0'].status).toBe('rejected');
+  });
+
+  it('matches as many pairs as any matching can', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const graph = randomBipartite(seed, 7, 0.3);
+      const left = graph.nodes.filter(n => n.startsWith('l'));
+      expect(finalFrame(hopcroftKarp(graph, left)).metrics['Matching size']).toBe(maximumMatching(graph, left));
+    }
+  });
+
+  it('keeps the augmenting paths of a phase vertex-disjoint and shortest-first', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const graph = randomBipartite(seed, 8, 0.35);
+      const phases = pathsByPhase(hopcroftKarp(graph, graph.nodes.filter(n => n.startsWith('l'))));
+      phases.forEach((paths, phase) => {
+        const nodes = paths.flat();
+        expect(new Set(nodes).size).toBe(nodes.length);
+        // Each phase uses paths of a single length, longer than the phase before
+        expect(new Set(paths.map(p => p.length)).size).toBeLessThanOrEqual(1);
+        if (phase > 0 && paths.length > 0 && phases[phase - 1].length > 0) {
+          expect(paths[0].length).toBeGreaterThan(phases[phase - 1][0].length);
+        }
+      });
+    }
+  });
+
+  it('refuses a graph that is not bipartite without marked sides', () => {
+    expect(hopcroftKarp(graphOf('A-B B-C C-A'))[0].narration).toContain('not bipartite');
+  });
+});
@@ -0,0 +1,181 @@
+import { findBipartition } from './coloring';
+import { getNeighbors, type Graph, type GraphEdge } from './graph';
+import { groupNode, labelNode, markEdge, markNode, setList, setMetric, setTable } from './trace';
+import type { Step, StepAction, TraceTable } from './types';
+
+export interface Sides {
+  left: string[];
+  right: string[];
+}
+
+// Nodes the user put on the left side, with everything else on the right; otherwise a detected 2-coloring
+export const resolveSides = (graph: Graph, leftSide: string[] = []): Sides | null => {
+  const marked = leftSide.filter(n => graph.nodes.includes(n));
+  if (marked.length === 0) return findBipartition(graph);
+  return { left: marked, right: graph.nodes.filter(n => !marked.includes(n)) };
+};
+
+interface Mate {
+  node: string;
+  edge: GraphEdge;
+}
+
+// Hopcroft-Karp: each phase finds a maximal set of shortest, vertex-disjoint augmenting paths
+export const hopcroftKarp = (graph: Graph, leftSide: string[] = []): Step[] => {
+  const sides = resolveSides(graph, leftSide);
+  if (!sides) {
+    return [{
+      narration: 'The graph is not bipartite, so its sides cannot be detected. Mark the left side by hand to match across a chosen split.',
+      actions: [],
+    }];
+  }
+
+  const steps: Step[] = [];
+  const { left, right } = sides;
+  const isLeft = new Set(left);
+  const mate = new Map<string, Mate>();
+  // Only edges across the split can be matched
+  const across = (node: string) => getNeighbors(graph, node).filter(nb => isLeft.has(nb.node) !== isLeft.has(node));
+  const ignored = graph.edges.filter(e => isLeft.has(e.source) === isLeft.has(e.target));
+  const matching = () => left.filter(n => mate.has(n)).map(n => `${n}-${mate.get(n)!.node}`);
+
+  const table = (layer: Map<string, number>, highlight: string[] = []): TraceTable => ({
+    columns: ['Left', 'Layer', 'Matched to'],
+    rows: left.map(node => ({
+      key: node,
+      cells: [node, layer.has(node) ? String(layer.get(node)) : '-', mate.get(node)?.node ?? '-'],
+    })),
+    highlight,
+  });
+
+  steps.push({
+    narration: `Matching between the left side {${left.join(', ')}} and the right side {${right.join(', ')}}.` +
+      (leftSide.length > 0 ? '' : ' The sides were detected by 2-coloring the graph.') +
+      (ignored.length > 0 ? ` ${ignored.length} edge${ignored.length === 1 ? ' joins' : 's join'} nodes on the same side and cannot be used.` : ''),
+    actions: [
+      ...left.map(n => groupNode(n, 0)),
+      ...right.map(n => groupNode(n, 1)),
+      ...ignored.map(e => markEdge(e.id, 'rejected')),
+      setMetric('Matching size', 0),
+      setList('Matching', []),
+      setTable(table(new Map())),
+    ],
+  });
+
+  for (let phase = 1; ; phase++) {
+    // BFS layers alternate unmatched edges out of the left and matched edges back into it
+    const layer = new Map<string, number>();
+    const free = left.filter(n => !mate.has(n));
+    free.forEach(n => layer.set(n, 0));
+    const queue = [...free];
+    let shortest = Infinity;
+    while (queue.length > 0) {
+      const u = queue.shift()!;
+      if (layer.get(u)! >= shortest) continue;
+      for (const { node: v } of across(u)) {
+        const w = mate.get(v)?.node;
+        if (w === undefined) {
+          shortest = Math.min(shortest, layer.get(u)! + 1);
+        } else if (!layer.has(w)) {
+          layer.set(w, layer.get(u)! + 1);
+          queue.push(w);
+        }
+      }
+    }
+
+    steps.push({
+      narration: shortest === Infinity
+        ? `Phase ${phase}: BFS from the free left nodes${free.length > 0 ? ` (${free.join(', ')})` : ''} reaches no free right node, so no augmenting path exists.`
+        : `Phase ${phase}: BFS from the free left nodes (${free.join(', ')}) builds layers by alternating unused and matched edges. The shortest augmenting paths have ${2 * shortest - 1} edge${shortest === 1 ? '' : 's'}.`,
+      actions: [
+        ...left.map(n => markNode(n, 'idle')),
+        ...right.map(n => markNode(n, 'idle')),
+        ...left.map(n => labelNode(n, layer.has(n) ? `L${layer.get(n)}` : '')),
+        ...free.map(n => markNode(n, 'queued')),
+        setMetric('Phase', phase),
+        setTable(table(layer, free)),
+      ],
+    });
+    if (shortest === Infinity) break;
+
+    // DFS along the layers; dead ends and nodes on paths already found this
+    // phase are removed, so the paths stay vertex-disjoint and the phase linear
+    const dead = new Set<string>();
+    const augment = (u: string): { node: string; edge: GraphEdge }[] | null => {
+      for (const { node: v, edge } of across(u)) {
+        const w = mate.get(v)?.node;
+        if (dead.has(v)) continue;
+        if (w === undefined) {
+          if (layer.get(u)! + 1 !== shortest) continue;
+          return [{ node: v, edge }];
+        }
+        if (dead.has(w) || layer.get(w) !== layer.get(u)! + 1) continue;
+        const rest = augment(w);
+        if (rest) return [{ node: v, edge }, { node: w, edge: mate.get(w)!.edge }, ...rest];
+      }
+      dead.add(u);
+      return null;
+    };
+
+    let found = 0;
+    for (const start of free) {
+      if (dead.has(start) || mate.has(start)) continue;
+      const hops = augment(start);
+      if (!hops) continue;
+      found++;
+
+      const route = [start, ...hops.map(h => h.node)];
+      route.forEach(n => dead.add(n));
+      const added = hops.filter((_, i) => i % 2 === 0);
+      const removed = hops.filter((_, i) => i % 2 === 1);
+      steps.push({
+        narration: removed.length > 0
+          ? `Augmenting path ${route.join(' → ')} alternates unmatched and matched edges between two free nodes. Its matched edges (${removed.map(h => h.edge.source + '-' + h.edge.target).join(', ')}) will be swapped out.`
+          : `Augmenting path ${route.join(' → ')} is a single unmatched edge between two free nodes.`,
+        actions: [
+          ...added.map(h => markEdge(h.edge.id, 'considered')),
+          ...route.map(n => markNode(n, 'current')),
+        ],
+      });
+
+      // Flip the path: every unmatched edge becomes matched and vice versa
+      const flips: StepAction[] = [];
+      for (let i = 0; i < hops.length; i += 2) {
+        const u = i === 0 ? start : hops[i - 1].node;
+        const { node: v, edge } = hops[i];
+        mate.set(u, { node: v, edge });
+        mate.set(v, { node: u, edge });
+        flips.push(markEdge(edge.id, 'path'));
+      }
+      removed.forEach(h => flips.push(markEdge(h.edge.id, 'idle')));
+      steps.push({
+        narration: `Flipping the path grows the matching by one to ${mate.size / 2}.`,
+        actions: [
+          ...flips,
+          ...route.map(n => markNode(n, 'visited')),
+          setMetric('Matching size', mate.size / 2),
+          setList('Matching', matching()),
+          setTable(table(layer, route.filter(n => isLeft.has(n)))),
+        ],
+      });
+    }
+
+    steps.push({
+      narration: `Phase ${phase} found ${found} vertex-disjoint augmenting path${found === 1 ? '' : 's'}.`,
+      actions: [],
+    });
+  }
+
+  const size = mate.size / 2;
+  const perfect = size === left.length && size === right.length;
+  steps.push({
+    narration: `No augmenting path is left, so the matching is maximum with ${size} edge${size === 1 ? '' : 's'}${perfect ? '. It is perfect: every node is matched' : ''}.`,
+    actions: [
+      ...graph.nodes.map(n => markNode(n, mate.has(n) ? 'visited' : 'idle')),
+      ...left.map(n => labelNode(n, '')),
+      setMetric('Matching size', size),
+      setTable(table(new Map())),
+    ],
+  });
+  return steps;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf } from '../test/graphs';
+import { kruskal, prim, UnionFind } from './mst';
+
+const graph = graphOf('A-B:4 A-C:1 B-C:2 B-D:5 C-D:8 D-E:3');
+
+describe('UnionFind', () => {
+  it('merges sets and reports when two nodes already share one', () => {
+    const uf = new UnionFind(['A', 'B', 'C']);
+    expect(uf.union('A', 'B')).toBe(true);
+    expect(uf.union('B', 'C')).toBe(true);
+    expect(uf.union('A', 'C')).toBe(false);
+    expect(uf.find('C')).toBe(uf.find('A'));
+  });
+});
+
+describe('kruskal', () => {
+  it('picks the cheapest edges that do not close a cycle', () => {
+    const frame = finalFrame(kruskal(graph));
+    expect(edgesWith(frame, 'selected')).toEqual(['1', '2', '3', '5']);
+    expect(edgesWith(frame, 'rejected')).toEqual(['0']);
+    expect(frame.metrics['Total Cost']).toBe(11);
+  });
+});
+
+describe('prim', () => {
+  it('finds a tree of the same cost from any start', () => {
+    for (const start of graph.nodes) {
+      const frame = finalFrame(prim(graph, start));
+      expect(edgesWith(frame, 'selected')).toEqual(['1', '2', '3', '5']);
+      expect(frame.metrics['Total Cost']).toBe(11);
+    }
+  });
+
+  it('stops when the rest of the graph is unreachable', () => {
+    const steps = prim(graphOf('A-B:2 C-D:1'), 'A');
+    expect(finalFrame(steps).metrics['Total Cost']).toBe(2);
+    expect(steps.some(s => s.narration.includes('unreachable'))).toBe(true);
+  });
+});
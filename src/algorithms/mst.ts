@@ -0,0 +1,143 @@
+import type { Graph, GraphEdge } from './graph';
+import { markEdge, markNode, setMetric } from './trace';
+import type { Step } from './types';
+
+// Union-Find data structure for Kruskal's algorithm
+export class UnionFind {
+  private parent: Map<string, string> = new Map();
+  private rank: Map<string, number> = new Map();
+
+  constructor(nodes: string[]) {
+    nodes.forEach(node => {
+      this.parent.set(node, node);
+      this.rank.set(node, 0);
+    });
+  }
+
+  find(node: string): string {
+    if (this.parent.get(node) !== node) {
+      this.parent.set(node, this.find(this.parent.get(node)!));
+    }
+    return this.parent.get(node)!;
+  }
+
+  union(x: string, y: string): boolean {
+    const rootX = this.find(x);
+    const rootY = this.find(y);
+
+    if (rootX === rootY) return false;
+
+    const rankX = this.rank.get(rootX)!;
+    const rankY = this.rank.get(rootY)!;
+
+    if (rankX < rankY) {
+      this.parent.set(rootX, rootY);
+    } else if (rankX > rankY) {
+      this.parent.set(rootY, rootX);
+    } else {
+      this.parent.set(rootY, rootX);
+      this.rank.set(rootX, rankX + 1);
+    }
+    return true;
+  }
+}
+
+export const kruskal = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const uf = new UnionFind(graph.nodes);
+  const sortedEdges = [...graph.edges].sort((a, b) => a.weight - b.weight);
+  let cost = 0;
+  let count = 0;
+
+  steps.push({
+    narration: `Sorting all edges by weight: ${sortedEdges.map(e => `${e.source}-${e.target} (${e.weight})`).join(', ')}.`,
+    actions: [setMetric('Step', 0), setMetric('Total Cost', 0)],
+  });
+
+  for (const edge of sortedEdges) {
+    if (count === graph.nodes.length - 1) break;
+
+    if (uf.union(edge.source, edge.target)) {
+      cost += edge.weight;
+      count++;
+      steps.push({
+        narration: `Edge ${edge.source}-${edge.target} (${edge.weight}) connects two different components, so it joins the MST.`,
+        actions: [
+          markNode(edge.source, 'visited'),
+          markNode(edge.target, 'visited'),
+          markEdge(edge.id, 'selected'),
+          setMetric('Step', count),
+          setMetric('Total Cost', cost),
+        ],
+      });
+    } else {
+      steps.push({
+        narration: `Edge ${edge.source}-${edge.target} (${edge.weight}) would create a cycle, so it is skipped.`,
+        actions: [markEdge(edge.id, 'rejected')],
+      });
+    }
+  }
+
+  steps.push({
+    narration: `Kruskal's algorithm finished with ${count} edges and total cost ${cost}.`,
+    actions: [],
+  });
+
+  return steps;
+};
+
+export const prim = (graph: Graph, start: string = graph.nodes[0]): Step[] => {
+  const steps: Step[] = [];
+  const visited = new Set<string>([start]);
+  let cost = 0;
+  let count = 0;
+
+  steps.push({
+    narration: `Starting Prim's algorithm from node ${start}.`,
+    actions: [markNode(start, 'visited'), setMetric('Step', 0), setMetric('Total Cost', 0)],
+  });
+
+  while (visited.size < graph.nodes.length) {
+    let minEdge: GraphEdge | null = null;
+
+    // Find minimum weight edge from visited to unvisited nodes
+    for (const edge of graph.edges) {
+      if (visited.has(edge.source) !== visited.has(edge.target)) {
+        if (!minEdge || edge.weight < minEdge.weight) {
+          minEdge = edge;
+        }
+      }
+    }
+
+    if (!minEdge) {
+      steps.push({
+        narration: 'No edge leaves the visited set, so the remaining nodes are unreachable.',
+        actions: [],
+      });
+      break;
+    }
+
+    const from = visited.has(minEdge.source) ? minEdge.source : minEdge.target;
+    const newNode = from === minEdge.source ? minEdge.target : minEdge.source;
+    visited.add(newNode);
+    cost += minEdge.weight;
+    count++;
+
+    steps.push({
+      narration: `The cheapest edge leaving the tree is ${from}-${newNode} (${minEdge.weight}). Adding ${newNode} to the MST.`,
+      actions: [
+        markNode(newNode, 'visited'),
+        markEdge(minEdge.id, 'selected'),
+        setMetric('Step', count),
+        setMetric('Total Cost', cost),
+      ],
+    });
+  }
+
+  steps.push({
+    narration: `Prim's algorithm finished with ${count} edges and total cost ${cost}.`,
+    actions: [],
+  });
+
+  return steps;
+};
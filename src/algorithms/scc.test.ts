@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame, graphOf } from '../test/graphs';
+import { condensation, kosaraju, tarjan } from './scc';
+import type { Frame } from './types';
+
+// {A, B, C} -> {D, E} -> F
+const graph = graphOf('A-B B-C C-A C-D D-E E-D E-F', { directed: true });
+
+// Components as sorted member lists, independent of the numbering
+const componentsOf = (frame: Frame) => {
+  const groups = new Map<number, string[]>();
+  Object.entries(frame.nodes).forEach(([id, mark]) => groups.set(mark.group!, [...(groups.get(mark.group!) ?? []), id]));
+  return [...groups.values()].map(members => members.sort().join('')).sort();
+};
+
+describe.each([
+  ['tarjan', tarjan],
+  ['kosaraju', kosaraju],
+])('%s', (_, find) => {
+  it('groups the nodes into strongly connected components', () => {
+    const frame = finalFrame(find(graph));
+    expect(componentsOf(frame)).toEqual(['ABC', 'DE', 'F']);
+    expect(frame.transposed).toBe(false);
+  });
+
+  it('puts every node of a DAG in its own component', () => {
+    expect(componentsOf(finalFrame(find(graphOf('A-B B-C A-C', { directed: true }))))).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('condensation', () => {
+  it('collapses each component to one node with one edge per connected pair', () => {
+    const frame = finalFrame(tarjan(graph));
+    const { components, edges } = condensation(graph, node => frame.nodes[node]?.group);
+    const name = (index: number) => components[index].slice().sort().join('');
+    expect(edges.map(([a, b]) => `${name(a)}>${name(b)}`).sort()).toEqual(['ABC>DE', 'DE>F']);
+  });
+});
@@ -0,0 +1,288 @@
+import { getArcs, type Arc, type Graph } from './graph';
+import {
+  groupEdge,
+  groupNode,
+  labelNode,
+  markEdge,
+  markNode,
+  setList,
+  setMetric,
+  setTable,
+  setTransposed,
+} from './trace';
+import type { Step, StepAction, TraceTable } from './types';
+
+const formatComponent = (members: string[]) => `{${members.join(', ')}}`;
+
+// Colors the edges inside a finished component with the component's group
+const internalEdges = (graph: Graph, members: string[], group: number): StepAction[] =>
+  graph.edges
+    .filter(e => members.includes(e.source) && members.includes(e.target))
+    .map(e => groupEdge(e.id, group));
+
+// Edges between components fade back so only the components stand out
+const finishComponents = (graph: Graph, componentOf: Map<string, number>, components: string[][]): Step => ({
+  narration: `Found ${components.length} strongly connected component${components.length === 1 ? '' : 's'}: ${components.map(formatComponent).join(', ')}.`,
+  actions: graph.edges
+    .filter(e => componentOf.get(e.source) !== componentOf.get(e.target))
+    .map(e => markEdge(e.id, 'idle')),
+});
+
+export const tarjan = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const arcs = getArcs(graph);
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const componentOf = new Map<string, number>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Index', 'Low-link', 'On stack', 'SCC'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [
+        node,
+        index.has(node) ? String(index.get(node)) : '-',
+        low.has(node) ? String(low.get(node)) : '-',
+        onStack.has(node) ? '✓' : '',
+        componentOf.has(node) ? String(componentOf.get(node)! + 1) : '-',
+      ],
+    })),
+    highlight,
+  });
+
+  const label = (node: string) => labelNode(node, `${index.get(node)}/${low.get(node)}`);
+
+  const strongConnect = (node: string) => {
+    index.set(node, counter);
+    low.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+    steps.push({
+      narration: `Visiting ${node}: index = low-link = ${index.get(node)}. Pushing it onto the stack.`,
+      actions: [markNode(node, 'current'), label(node), setList('Stack', [...stack]), setTable(table([node]))],
+    });
+
+    for (const { to, edge } of arcs.filter(a => a.from === node)) {
+      const before = low.get(node)!;
+      if (!index.has(to)) {
+        steps.push({
+          narration: `${to} is unvisited. Following ${node}→${to}.`,
+          actions: [markNode(node, 'queued'), markEdge(edge.id, 'selected')],
+        });
+        strongConnect(to);
+        low.set(node, Math.min(before, low.get(to)!));
+        steps.push({
+          narration: low.get(node)! < before
+            ? `Back at ${node}: ${to} can reach index ${low.get(to)}, so low-link(${node}) drops to ${low.get(node)}.`
+            : `Back at ${node}: low-link(${to}) = ${low.get(to)} does not lower low-link(${node}) = ${before}.`,
+          actions: [markNode(node, 'current'), label(node), setTable(table([node]))],
+        });
+      } else if (onStack.has(to)) {
+        low.set(node, Math.min(before, index.get(to)!));
+        steps.push({
+          narration: `${to} is on the stack, so ${node}→${to} leads back into the component being built. low-link(${node}) = min(${before}, ${index.get(to)}) = ${low.get(node)}.`,
+          actions: [markEdge(edge.id, 'considered'), label(node), setTable(table([node]))],
+        });
+      } else {
+        steps.push({
+          narration: `${to} already belongs to SCC ${componentOf.get(to)! + 1}, so ${node}→${to} is ignored.`,
+          actions: [markEdge(edge.id, 'considered')],
+        });
+      }
+    }
+
+    if (low.get(node) !== index.get(node)) {
+      steps.push({
+        narration: `low-link(${node}) = ${low.get(node)} is below its index ${index.get(node)}, so ${node} stays on the stack as part of a component rooted further up.`,
+        actions: [markNode(node, 'queued')],
+      });
+      return;
+    }
+
+    const group = components.length;
+    const members: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      componentOf.set(member, group);
+      members.unshift(member);
+    } while (member !== node);
+    components.push(members);
+
+    steps.push({
+      narration: `low-link(${node}) equals its index, so ${node} is the root of a component. Popping ${[...members].reverse().join(', ')} off the stack: SCC ${group + 1} = ${formatComponent(members)}.`,
+      actions: [
+        ...members.flatMap(m => [markNode(m, 'visited'), groupNode(m, group)]),
+        ...internalEdges(graph, members, group),
+        setList('Stack', [...stack]),
+        setList('SCCs', components.map(formatComponent)),
+        setMetric('SCCs', components.length),
+        setTable(table(members)),
+      ],
+    });
+  };
+
+  steps.push({
+    narration: "Starting Tarjan's algorithm. Each node gets a discovery index and a low-link: the smallest index reachable through its subtree and the stack.",
+    actions: [setList('Stack', []), setList('SCCs', []), setMetric('SCCs', 0), setTable(table())],
+  });
+
+  for (const node of graph.nodes) {
+    if (!index.has(node)) strongConnect(node);
+  }
+
+  steps.push(finishComponents(graph, componentOf, components));
+  return steps;
+};
+
+export const kosaraju = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const arcs = getArcs(graph);
+  const reversed: Arc[] = arcs.map(({ from, to, edge }) => ({ from: to, to: from, edge }));
+  const visited = new Set<string>();
+  const finishOrder: string[] = [];
+  const path: string[] = [];
+  const componentOf = new Map<string, number>();
+  const components: string[][] = [];
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Finish', 'SCC'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [
+        node,
+        finishOrder.includes(node) ? String(finishOrder.indexOf(node) + 1) : '-',
+        componentOf.has(node) ? String(componentOf.get(node)! + 1) : '-',
+      ],
+    })),
+    highlight,
+  });
+
+  // Pass 1: plain DFS on the original graph, recording finishing order
+  const visit = (node: string) => {
+    visited.add(node);
+    path.push(node);
+    steps.push({
+      narration: `Pass 1: visiting ${node}.`,
+      actions: [markNode(node, 'current'), setList('Stack', [...path])],
+    });
+
+    for (const { to, edge } of arcs.filter(a => a.from === node)) {
+      if (visited.has(to)) continue;
+      steps.push({
+        narration: `Following ${node}→${to}.`,
+        actions: [markNode(node, 'queued'), markEdge(edge.id, 'selected')],
+      });
+      visit(to);
+    }
+
+    path.pop();
+    finishOrder.push(node);
+    steps.push({
+      narration: `${node} has no unvisited neighbors left and finishes as number ${finishOrder.length}.`,
+      actions: [
+        markNode(node, 'visited'),
+        labelNode(node, `f=${finishOrder.length}`),
+        setList('Stack', [...path]),
+        setList('Finish order', [...finishOrder]),
+        setTable(table([node])),
+      ],
+    });
+  };
+
+  steps.push({
+    narration: "Starting Kosaraju's algorithm. Pass 1 runs DFS over the whole graph and records the order in which nodes finish.",
+    actions: [setMetric('Pass', 1), setList('Finish order', []), setTable(table())],
+  });
+
+  for (const node of graph.nodes) {
+    if (!visited.has(node)) visit(node);
+  }
+
+  steps.push({
+    narration: 'Pass 1 complete. Reversing every edge gives the transposed graph, which has the same SCCs, but edges that used to leave a component now point into it.',
+    actions: [
+      setTransposed(true),
+      setMetric('Pass', 2),
+      ...graph.nodes.map(n => markNode(n, 'idle')),
+      ...graph.edges.map(e => markEdge(e.id, 'idle')),
+      setList('SCCs', []),
+    ],
+  });
+
+  // Pass 2: DFS on the transposed graph in decreasing finish time; each tree is one SCC
+  const collect = (node: string, group: number, members: string[]) => {
+    componentOf.set(node, group);
+    members.push(node);
+    steps.push({
+      narration: `Reached ${node} in the transposed graph. Adding it to SCC ${group + 1}.`,
+      actions: [markNode(node, 'visited'), groupNode(node, group), setTable(table([node]))],
+    });
+
+    for (const { to, edge } of reversed.filter(a => a.from === node)) {
+      if (componentOf.has(to)) continue;
+      steps.push({
+        narration: `Following reversed edge ${node}→${to}.`,
+        actions: [markEdge(edge.id, 'selected')],
+      });
+      collect(to, group, members);
+    }
+  };
+
+  for (const node of [...finishOrder].reverse()) {
+    if (componentOf.has(node)) continue;
+    const group = components.length;
+    steps.push({
+      narration: `${node} has the latest finish time among the unassigned nodes. Everything it reaches in the transposed graph forms SCC ${group + 1}.`,
+      actions: [markNode(node, 'current')],
+    });
+
+    const members: string[] = [];
+    collect(node, group, members);
+    components.push(members);
+    steps.push({
+      narration: `No more unassigned nodes are reachable. SCC ${group + 1} = ${formatComponent(members)}.`,
+      actions: [
+        ...internalEdges(graph, members, group),
+        setList('SCCs', components.map(formatComponent)),
+        setTable(table(members)),
+      ],
+    });
+  }
+
+  const finish = finishComponents(graph, componentOf, components);
+  steps.push({ ...finish, actions: [setTransposed(false), ...finish.actions] });
+  return steps;
+};
+
+export interface Condensation {
+  components: string[][];
+  // Distinct pairs of component indices
+  edges: [number, number][];
+}
+
+// Collapses every component to a single node; the result is always a DAG
+export const condensation = (graph: Graph, componentOf: (node: string) => number | undefined): Condensation => {
+  const components: string[][] = [];
+  for (const node of graph.nodes) {
+    const group = componentOf(node);
+    if (group === undefined) continue;
+    components[group] = [...(components[group] ?? []), node];
+  }
+
+  const edges = new Map<string, [number, number]>();
+  for (const { from, to } of getArcs(graph)) {
+    const a = componentOf(from);
+    const b = componentOf(to);
+    if (a === undefined || b === undefined || a === b) continue;
+    edges.set(`${a}-${b}`, [a, b]);
+  }
+
+  return { components, edges: [...edges.values()] };
+};
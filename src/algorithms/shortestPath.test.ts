@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf } from '../test/graphs';
+import { bellmanFord, bfsShortestPath, dijkstra, tracePath } from './shortestPath';
+import { createFrameStore } from './trace';
+import type { TraceTable } from './types';
+
+// A-C-B-D is cheaper than the direct A-B edge
+const graph = graphOf('A-B:4 A-C:1 C-B:2 B-D:1 C-D:5', { nodes: ['E'] });
+
+// Node to distance, read off the table column that holds the latest distances
+const distances = (table: TraceTable | null, column = 'Distance') => {
+  const at = table!.columns.indexOf(column);
+  return Object.fromEntries(table!.rows.map(row => [row.cells[0], row.cells[at]]));
+};
+
+describe('tracePath', () => {
+  it('follows predecessors back to the start', () => {
+    const [ab, bc] = graphOf('A-B B-C').edges;
+    const predecessor = new Map([['B', { from: 'A', to: 'B', edge: ab }], ['C', { from: 'B', to: 'C', edge: bc }]]);
+    expect(tracePath(predecessor, 'A', 'C')).toEqual({ nodes: ['A', 'B', 'C'], edges: [ab, bc] });
+    expect(tracePath(predecessor, 'A', 'D')).toEqual({ nodes: [], edges: [] });
+  });
+});
+
+describe('dijkstra', () => {
+  it('finds the shortest distance to every node', () => {
+    const frame = finalFrame(dijkstra(graph, 'A'));
+    expect(distances(frame.table)).toEqual({ A: '0', B: '3', C: '1', D: '4', E: '∞' });
+    expect(edgesWith(frame, 'path')).toEqual(['1', '2', '3']);
+  });
+
+  it('marks the path to the target and stops once it is settled', () => {
+    const steps = dijkstra(graph, 'A', 'B');
+    const frame = finalFrame(steps);
+    expect(frame.narration).toContain('A → C → B');
+    expect(Object.entries(frame.nodes).filter(([, m]) => m.status === 'path').map(([id]) => id).sort()).toEqual(['A', 'B', 'C']);
+    expect(steps.some(s => s.narration.includes('Stopping early'))).toBe(true);
+  });
+
+  it('only updates the row that changed between full tables', () => {
+    const steps = dijkstra(graph, 'A');
+    const tables = steps.flatMap(s => s.actions.filter(a => a.type === 'table'));
+    expect(tables).toHaveLength(2);
+    const store = createFrameStore(steps);
+    const relax = steps.findIndex(s => s.narration.startsWith('Relaxing A→C'));
+    expect(store.frameAt(relax)!.table!.highlight).toEqual(['C']);
+    expect(distances(store.frameAt(relax)!.table).C).toBe('1');
+  });
+
+  it('refuses negative weights', () => {
+    const steps = dijkstra(graphOf('A-B:-1'), 'A');
+    expect(steps).toHaveLength(1);
+    expect(steps[0].narration).toContain('Bellman-Ford');
+  });
+});
+
+describe('bellmanFord', () => {
+  it('agrees with Dijkstra on non-negative weights', () => {
+    expect(distances(finalFrame(bellmanFord(graph, 'A')).table, 'Current')).toEqual({ A: '0', B: '3', C: '1', D: '4', E: '∞' });
+  });
+
+  it('handles negative edges in a directed graph', () => {
+    const steps = bellmanFord(graphOf('A-B:4 A-C:2 C-B:-3 B-D:1', { directed: true }), 'A');
+    expect(distances(finalFrame(steps).table, 'Current')).toEqual({ A: '0', B: '-1', C: '2', D: '0' });
+  });
+
+  it('reports a reachable negative cycle', () => {
+    const steps = bellmanFord(graphOf('A-B:1 B-C:-2 C-B:1 C-D:1', { directed: true }), 'A');
+    const frame = finalFrame(steps);
+    expect(frame.metrics['Negative cycle']).toContain('(-1)');
+    expect(Object.entries(frame.nodes).filter(([, m]) => m.status === 'conflict').map(([id]) => id).sort()).toEqual(['B', 'C']);
+  });
+
+  it('shows each pass as one step on large graphs', () => {
+    // A chain of 30 nodes with 600 parallel shortcut edges that never help
+    const chain = Array.from({ length: 29 }, (_, i) => `N${i}-N${i + 1}:1`);
+    const shortcuts = Array.from({ length: 600 }, (_, i) => `N0-N${1 + (i % 29)}:100`);
+    const large = graphOf([...chain, ...shortcuts].join(' '), { directed: true });
+    const steps = bellmanFord(large, 'N0');
+    expect(steps.length).toBeLessThan(40);
+    expect(distances(finalFrame(steps).table, 'Current').N29).toBe('29');
+  });
+});
+
+describe('bfsShortestPath', () => {
+  it('counts edges and ignores weights', () => {
+    const frame = finalFrame(bfsShortestPath(graph, 'A'));
+    expect(distances(frame.table, 'Level')).toEqual({ A: '0', B: '1', C: '1', D: '2', E: '∞' });
+  });
+
+  it('reconstructs the fewest-edge path to the target', () => {
+    const frame = finalFrame(bfsShortestPath(graph, 'A', 'D'));
+    expect(frame.narration).toContain('A → B → D');
+    expect(edgesWith(frame, 'path')).toEqual(['0', '3']);
+  });
+
+  it('says when the target cannot be reached', () => {
+    expect(finalFrame(bfsShortestPath(graph, 'A', 'E')).narration).toBe('Node E is unreachable from A.');
+  });
+});
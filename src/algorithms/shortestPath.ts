@@ -0,0 +1,455 @@
+import { getArcs, getNeighbors, type Arc, type Graph, type GraphEdge } from './graph';
+import { labelNode, markEdge, markNode, setList, setMetric, setTable, setTableRow } from './trace';
+import type { Step, StepAction, TraceTable } from './types';
+
+export const formatDistance = (distance: number): string =>
+  distance === Infinity ? '∞' : String(distance);
+
+// Walks predecessor edges back from target; empty when target is unreachable
+export const tracePath = (
+  predecessor: Map<string, Arc>,
+  start: string,
+  target: string
+): { nodes: string[]; edges: GraphEdge[] } => {
+  const nodes = [target];
+  const edges: GraphEdge[] = [];
+  let current = target;
+  while (current !== start) {
+    const arc = predecessor.get(current);
+    // A missing link means unreachable; an overlong walk means the pointers loop
+    if (!arc || nodes.length > predecessor.size + 1) return { nodes: [], edges: [] };
+    current = arc.from;
+    edges.unshift(arc.edge);
+    nodes.unshift(current);
+  }
+  return { nodes, edges };
+};
+
+const distanceRow = (
+  node: string,
+  distance: Map<string, number>,
+  predecessor: Map<string, Arc>,
+  settled: Set<string>
+): string[] => [
+  node,
+  formatDistance(distance.get(node)!),
+  predecessor.get(node)?.from ?? '-',
+  settled.has(node) ? '✓' : '',
+];
+
+const distanceTable = (
+  graph: Graph,
+  distance: Map<string, number>,
+  predecessor: Map<string, Arc>,
+  settled: Set<string>,
+  highlight: string[] = []
+): TraceTable => ({
+  columns: ['Node', 'Distance', 'Previous', 'Final'],
+  rows: graph.nodes.map(node => ({ key: node, cells: distanceRow(node, distance, predecessor, settled) })),
+  highlight,
+});
+
+// Queue entries listed in a step; the full queue of a large graph would be copied into every step
+const QUEUE_PREVIEW = 20;
+
+// Final step shared by the single-source algorithms: the target path, or the whole shortest-path tree
+const finishShortestPaths = (
+  graph: Graph,
+  start: string,
+  target: string | undefined,
+  distance: Map<string, number>,
+  predecessor: Map<string, Arc>,
+  table: (highlight?: string[]) => TraceTable,
+  lead: StepAction[]
+): Step => {
+  const treeEdges = [...predecessor.values()].map(arc => arc.edge);
+  if (target) {
+    const path = tracePath(predecessor, start, target);
+    if (path.nodes.length === 0) {
+      return { narration: `Node ${target} is unreachable from ${start}.`, actions: lead };
+    }
+    const onPath = new Set(path.edges.map(e => e.id));
+    return {
+      narration: `Shortest path ${start}→${target}: ${path.nodes.join(' → ')} with total distance ${distance.get(target)}.`,
+      actions: [
+        ...lead,
+        ...treeEdges.filter(e => !onPath.has(e.id)).map(e => markEdge(e.id, 'idle')),
+        ...path.edges.map(e => markEdge(e.id, 'path')),
+        ...path.nodes.map(n => markNode(n, 'path')),
+        setTable(table(path.nodes)),
+      ],
+    };
+  }
+
+  const unreachable = graph.nodes.filter(n => distance.get(n) === Infinity);
+  return {
+    narration: `The highlighted edges form the shortest-path tree from ${start}.` +
+      (unreachable.length > 0 ? ` Unreachable: ${unreachable.join(', ')}.` : ''),
+    actions: [...lead, ...treeEdges.map(e => markEdge(e.id, 'path')), setTable(table())],
+  };
+};
+
+// Unweighted shortest paths: BFS reaches nodes level by level, so the first parent found is final
+export const bfsShortestPath = (graph: Graph, start: string, target?: string): Step[] => {
+  const steps: Step[] = [];
+  const distance = new Map(graph.nodes.map(n => [n, Infinity]));
+  const predecessor = new Map<string, Arc>();
+  const queue = [start];
+  distance.set(start, 0);
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'Level', 'Parent'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [node, formatDistance(distance.get(node)!), predecessor.get(node)?.from ?? '-'],
+    })),
+    highlight,
+  });
+
+  steps.push({
+    narration: `Starting BFS from ${start} at level 0. Each node remembers the parent that discovered it, and its level is the number of edges from ${start}.`,
+    actions: [labelNode(start, 'L0'), markNode(start, 'queued'), setList('Queue', [...queue]), setTable(table([start]))],
+  });
+
+  let previous: string | null = null;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const level = distance.get(current)!;
+    const lead: StepAction[] = [
+      ...(previous ? [markNode(previous, 'visited')] : []),
+      markNode(current, 'current'),
+    ];
+    previous = current;
+
+    if (current === target) {
+      steps.push({
+        narration: `Dequeued the target ${target} at level ${level}. BFS dequeues nodes in level order, so no shorter path exists. Stopping early.`,
+        actions: [...lead, setList('Queue', [...queue]), setTable(table([current]))],
+      });
+      break;
+    }
+
+    const actions: StepAction[] = [];
+    const found: string[] = [];
+    for (const { node, edge } of getNeighbors(graph, current)) {
+      if (distance.get(node) !== Infinity) continue;
+      distance.set(node, level + 1);
+      predecessor.set(node, { from: current, to: node, edge });
+      queue.push(node);
+      found.push(node);
+      actions.push(markEdge(edge.id, 'selected'), markNode(node, 'queued'), labelNode(node, `L${level + 1}`));
+    }
+    steps.push({
+      narration: found.length > 0
+        ? `Visiting ${current} (level ${level}). Discovered ${found.join(', ')} at level ${level + 1} with parent ${current}.`
+        : `Visiting ${current} (level ${level}). It has no undiscovered neighbors.`,
+      actions: [...lead, ...actions, setList('Queue', [...queue]), setTable(table([current, ...found]))],
+    });
+  }
+
+  steps.push(finishShortestPaths(
+    graph,
+    start,
+    target,
+    distance,
+    predecessor,
+    table,
+    previous ? [markNode(previous, 'visited')] : []
+  ));
+  return steps;
+};
+
+export const dijkstra = (graph: Graph, start: string, target?: string): Step[] => {
+  const steps: Step[] = [];
+  const distance = new Map(graph.nodes.map(n => [n, Infinity]));
+  const predecessor = new Map<string, Arc>();
+  const settled = new Set<string>();
+  // Lazy priority queue: stale entries are skipped when popped
+  const queue: { node: string; distance: number }[] = [{ node: start, distance: 0 }];
+  distance.set(start, 0);
+
+  const queueItems = () => {
+    const items = [...queue].sort((a, b) => a.distance - b.distance).slice(0, QUEUE_PREVIEW).map(e => `${e.node} (${e.distance})`);
+    return queue.length > QUEUE_PREVIEW ? [...items, `+${queue.length - QUEUE_PREVIEW} more`] : items;
+  };
+  // Only the row that changed goes into a step; the full table is set at the start and the finish
+  const row = (node: string) => setTableRow(node, distanceRow(node, distance, predecessor, settled));
+
+  const negative = graph.edges.find(e => e.weight < 0);
+  if (negative) {
+    return [{
+      narration: `Edge ${negative.source}-${negative.target} has negative weight ${negative.weight}. Dijkstra's algorithm requires non-negative weights; use Bellman-Ford instead.`,
+      actions: [markEdge(negative.id, 'rejected')],
+    }];
+  }
+
+  steps.push({
+    narration: `Starting Dijkstra from node ${start}. Its distance is 0 and every other node starts at ∞.`,
+    actions: [
+      ...graph.nodes.map(n => labelNode(n, n === start ? '0' : '∞')),
+      markNode(start, 'queued'),
+      setList('Priority Queue', queueItems()),
+      setTable(distanceTable(graph, distance, predecessor, settled, [start])),
+    ],
+  });
+
+  let previous: string | null = null;
+  // Edges that were relaxed without improvement fade back on the next extraction
+  let considered: string[] = [];
+  while (queue.length > 0) {
+    queue.sort((a, b) => a.distance - b.distance);
+    const entry = queue.shift()!;
+    const current = entry.node;
+    if (settled.has(current) || entry.distance > distance.get(current)!) continue;
+
+    settled.add(current);
+    steps.push({
+      narration: `Extracting ${current} with the smallest tentative distance ${entry.distance}. Its distance is now final.`,
+      actions: [
+        ...considered.map(id => markEdge(id, 'idle')),
+        ...(previous ? [markNode(previous, 'visited')] : []),
+        markNode(current, 'current'),
+        setList('Priority Queue', queueItems()),
+        row(current),
+      ],
+    });
+    previous = current;
+    considered = [];
+
+    if (current === target) {
+      steps.push({
+        narration: `Target ${target} has been extracted, so its shortest distance ${entry.distance} is final. Stopping early.`,
+        actions: [],
+      });
+      break;
+    }
+
+    for (const { node, edge } of getNeighbors(graph, current)) {
+      if (settled.has(node)) continue;
+
+      const candidate = distance.get(current)! + edge.weight;
+      const old = distance.get(node)!;
+      if (candidate < old) {
+        const replaced = predecessor.get(node);
+        distance.set(node, candidate);
+        predecessor.set(node, { from: current, to: node, edge });
+        queue.push({ node, distance: candidate });
+        steps.push({
+          narration: `Relaxing ${current}→${node}: ${distance.get(current)} + ${edge.weight} = ${candidate} < ${formatDistance(old)}. Updating ${node}'s distance and predecessor.`,
+          actions: [
+            ...(replaced ? [markEdge(replaced.edge.id, 'idle')] : []),
+            markEdge(edge.id, 'selected'),
+            markNode(node, 'queued'),
+            labelNode(node, String(candidate)),
+            setList('Priority Queue', queueItems()),
+            row(node),
+          ],
+        });
+      } else {
+        steps.push({
+          narration: `Relaxing ${current}→${node}: ${distance.get(current)} + ${edge.weight} = ${candidate} is not better than ${formatDistance(old)}. No change.`,
+          actions: [markEdge(edge.id, 'considered')],
+        });
+        considered.push(edge.id);
+      }
+    }
+  }
+
+  const finish: StepAction[] = [
+    ...considered.map(id => markEdge(id, 'idle')),
+    ...(previous ? [markNode(previous, 'visited')] : []),
+  ];
+  steps.push(finishShortestPaths(
+    graph,
+    start,
+    target,
+    distance,
+    predecessor,
+    highlight => distanceTable(graph, distance, predecessor, settled, highlight),
+    finish
+  ));
+
+  return steps;
+};
+
+// Edges relaxed one step at a time; larger graphs get one step per pass
+const ARC_TRACE_LIMIT = 500;
+
+// Passes kept as table columns, so a long run does not widen every row without bound
+const PASS_COLUMNS = 6;
+
+export const bellmanFord = (graph: Graph, start: string, target?: string): Step[] => {
+  const steps: Step[] = [];
+  const arcs = getArcs(graph);
+  // Above this every pass is one summary step instead of one step per edge
+  const traceArcs = arcs.length <= ARC_TRACE_LIMIT;
+  const distance = new Map(graph.nodes.map(n => [n, Infinity]));
+  const predecessor = new Map<string, Arc>();
+  // Distances after each completed pass, shown as table columns
+  const history: Map<string, number>[] = [];
+  distance.set(start, 0);
+  history.push(new Map(distance));
+
+  const cells = (node: string) => [
+    node,
+    ...history.slice(-PASS_COLUMNS).map(h => formatDistance(h.get(node)!)),
+    formatDistance(distance.get(node)!),
+    predecessor.get(node)?.from ?? '-',
+  ];
+  // The full table is set once per pass; a relaxation only replaces the row it changed
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', ...history.map((_, i) => `Pass ${i}`).slice(-PASS_COLUMNS), 'Current', 'Previous'],
+    rows: graph.nodes.map(node => ({ key: node, cells: cells(node) })),
+    highlight,
+  });
+
+  // An edge can be the predecessor of two nodes in an undirected graph, so only clear it when unused
+  const treeUses = new Map<string, number>();
+  const isTreeEdge = (edge: GraphEdge) => (treeUses.get(edge.id) ?? 0) > 0;
+  const setPredecessor = (arc: Arc) => {
+    const replaced = predecessor.get(arc.to);
+    if (replaced) treeUses.set(replaced.edge.id, treeUses.get(replaced.edge.id)! - 1);
+    treeUses.set(arc.edge.id, (treeUses.get(arc.edge.id) ?? 0) + 1);
+    predecessor.set(arc.to, arc);
+    return replaced;
+  };
+
+  steps.push({
+    narration: `Starting Bellman-Ford from node ${start}. Every edge will be relaxed in up to ${graph.nodes.length - 1} passes.` +
+      (traceArcs ? '' : ` With ${arcs.length} edges each pass is shown as a single step.`),
+    actions: [
+      ...graph.nodes.map(n => labelNode(n, n === start ? '0' : '∞')),
+      markNode(start, 'current'),
+      setMetric('Pass', 0),
+      setTable(table([start])),
+    ],
+  });
+
+  let considered: string[] = [];
+  let converged = false;
+  for (let pass = 1; pass < graph.nodes.length; pass++) {
+    if (traceArcs) {
+      steps.push({
+        narration: `Pass ${pass} of ${graph.nodes.length - 1}: relaxing every edge in order.`,
+        actions: [...considered.map(id => markEdge(id, 'idle')), setMetric('Pass', pass)],
+      });
+    }
+    considered = [];
+
+    const improved: string[] = [];
+    const passActions: StepAction[] = [];
+    for (const arc of arcs) {
+      const { from, to, edge } = arc;
+      const base = distance.get(from)!;
+      if (base === Infinity) {
+        if (!traceArcs) continue;
+        steps.push({
+          narration: `Skipping ${from}→${to}: ${from} has not been reached yet (∞).`,
+          actions: [markEdge(edge.id, isTreeEdge(edge) ? 'selected' : 'considered')],
+        });
+        if (!isTreeEdge(edge)) considered.push(edge.id);
+        continue;
+      }
+
+      const candidate = base + edge.weight;
+      const old = distance.get(to)!;
+      if (candidate < old) {
+        distance.set(to, candidate);
+        const replaced = setPredecessor(arc);
+        improved.push(to);
+        const actions = [
+          ...(replaced && !isTreeEdge(replaced.edge) ? [markEdge(replaced.edge.id, 'idle')] : []),
+          markEdge(edge.id, 'selected'),
+          markNode(to, 'visited'),
+          labelNode(to, String(candidate)),
+        ];
+        if (!traceArcs) {
+          passActions.push(...actions);
+          continue;
+        }
+        steps.push({
+          narration: `Relaxing ${from}→${to}: ${base} + ${edge.weight} = ${candidate} < ${formatDistance(old)}. Updating ${to}.`,
+          actions: [...actions, setTableRow(to, cells(to))],
+        });
+      } else if (traceArcs) {
+        steps.push({
+          narration: `Relaxing ${from}→${to}: ${base} + ${edge.weight} = ${candidate} is not better than ${formatDistance(old)}.`,
+          actions: [markEdge(edge.id, isTreeEdge(edge) ? 'selected' : 'considered')],
+        });
+        if (!isTreeEdge(edge)) considered.push(edge.id);
+      }
+    }
+
+    history.push(new Map(distance));
+    const changed = new Set(improved).size;
+    if (changed === 0) {
+      converged = true;
+      steps.push({
+        narration: `No distance changed in pass ${pass}, so every distance is final and no negative cycle is reachable. Stopping early.`,
+        actions: [...considered.map(id => markEdge(id, 'idle')), setMetric('Pass', pass), setTable(table())],
+      });
+      considered = [];
+      break;
+    }
+    steps.push({
+      narration: traceArcs
+        ? `Pass ${pass} complete: ${changed} distance${changed === 1 ? '' : 's'} improved.`
+        : `Pass ${pass} of ${graph.nodes.length - 1}: relaxed all ${arcs.length} edges and ${changed} distance${changed === 1 ? '' : 's'} improved.`,
+      actions: [...passActions, setMetric('Pass', pass), setTable(table(traceArcs ? [] : [...new Set(improved)]))],
+    });
+  }
+
+  if (!converged) {
+    steps.push({
+      narration: `After ${graph.nodes.length - 1} passes every shortest path is settled, unless a negative cycle exists. Checking every edge once more.`,
+      actions: [...considered.map(id => markEdge(id, 'idle')), setMetric('Pass', graph.nodes.length)],
+    });
+    considered = [];
+
+    const witness = arcs.find(({ from, to, edge }) =>
+      distance.get(from)! !== Infinity && distance.get(from)! + edge.weight < distance.get(to)!
+    );
+
+    if (witness) {
+      // Following predecessors V times from a node that still relaxes always lands on the cycle
+      const pointers = new Map(predecessor);
+      pointers.set(witness.to, witness);
+      let node = witness.to;
+      for (let i = 0; i < graph.nodes.length; i++) {
+        node = pointers.get(node)!.from;
+      }
+      const cycle: Arc[] = [];
+      let current = node;
+      do {
+        const arc = pointers.get(current)!;
+        cycle.unshift(arc);
+        current = arc.from;
+      } while (current !== node);
+
+      const weight = cycle.reduce((sum, arc) => sum + arc.edge.weight, 0);
+      const route = [...cycle.map(arc => arc.from), node].join(' → ');
+      const undirectedNote = !graph.directed
+        ? ' In an undirected graph a negative edge can be walked back and forth, which is itself a negative cycle.'
+        : '';
+      steps.push({
+        narration: `Edge ${witness.from}→${witness.to} can still be relaxed, so a negative cycle exists: ${route} with total weight ${weight}. Shortest distances are undefined.${undirectedNote}`,
+        actions: [
+          ...graph.edges.map(e => markEdge(e.id, 'idle')),
+          ...cycle.map(arc => markEdge(arc.edge.id, 'conflict')),
+          ...cycle.map(arc => markNode(arc.from, 'conflict')),
+          setMetric('Negative cycle', `${route} (${weight})`),
+          setTable(table(cycle.map(arc => arc.from))),
+        ],
+      });
+      return steps;
+    }
+
+    steps.push({
+      narration: 'No edge can be relaxed any further, so there is no negative cycle reachable from the start.',
+      actions: [],
+    });
+  }
+
+  steps.push(finishShortestPaths(graph, start, target, distance, predecessor, table, []));
+  return steps;
+};
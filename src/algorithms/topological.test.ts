@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame, graphOf } from '../test/graphs';
+import type { Graph } from './graph';
+import { dfsTopologicalSort, kahn } from './topological';
+import type { Frame } from './types';
+
+const dag = graphOf('shirt-tie tie-jacket shirt-belt belt-jacket pants-belt pants-shoes socks-shoes', {
+  directed: true,
+  nodes: ['watch'],
+});
+const cyclic = graphOf('A-B B-C C-D D-B', { directed: true });
+
+// Every edge goes from an earlier to a later node in the order
+const respectsEdges = (order: string[], graph: Graph) =>
+  graph.edges.every(e => order.indexOf(e.source) < order.indexOf(e.target));
+
+const conflicts = (frame: Frame) =>
+  Object.entries(frame.nodes).filter(([, mark]) => mark.status === 'conflict').map(([id]) => id).sort();
+
+describe.each([
+  ['kahn', kahn],
+  ['dfsTopologicalSort', dfsTopologicalSort],
+])('%s', (_, sort) => {
+  it('orders every node of a DAG before its successors', () => {
+    const order = finalFrame(sort(dag)).lists['Topological order'];
+    expect([...order].sort()).toEqual([...dag.nodes].sort());
+    expect(respectsEdges(order, dag)).toBe(true);
+  });
+
+  it('reports the cycle instead of an order', () => {
+    const frame = finalFrame(sort(cyclic));
+    expect(frame.narration).toMatch(/cycle/i);
+    expect(conflicts(frame)).toEqual(expect.arrayContaining(['B', 'C', 'D']));
+    expect(conflicts(frame)).not.toContain('A');
+  });
+});
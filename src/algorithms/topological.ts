@@ -0,0 +1,222 @@
+import { getArcs, getNeighbors, type Arc, type Graph } from './graph';
+import { labelNode, markEdge, markNode, setList, setMetric, setTable } from './trace';
+import type { Step, StepAction, TraceTable } from './types';
+
+// Highlights a directed cycle that makes a topological order impossible
+const cycleStep = (graph: Graph, cycle: Arc[], narration: string, lead: StepAction[]): Step => {
+  const route = [...cycle.map(arc => arc.from), cycle[0].from].join(' → ');
+  return {
+    narration: `${narration} Cycle: ${route}. A graph with a cycle has no topological order.`,
+    actions: [
+      ...lead,
+      ...graph.edges.map(e => markEdge(e.id, 'idle')),
+      ...cycle.map(arc => markEdge(arc.edge.id, 'conflict')),
+      ...cycle.map(arc => markNode(arc.from, 'conflict')),
+      setMetric('Cycle', route),
+    ],
+  };
+};
+
+export const kahn = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const arcs = getArcs(graph);
+  const inDegree = new Map(graph.nodes.map(n => [n, 0]));
+  for (const { to } of arcs) inDegree.set(to, inDegree.get(to)! + 1);
+
+  const queue = graph.nodes.filter(n => inDegree.get(n) === 0);
+  const order: string[] = [];
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'In-degree', 'Position'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [node, String(inDegree.get(node)), order.includes(node) ? String(order.indexOf(node) + 1) : '-'],
+    })),
+    highlight,
+  });
+
+  steps.push({
+    narration: queue.length > 0
+      ? `Counting incoming edges for every node. Nodes with in-degree 0 have no prerequisites: ${queue.join(', ')}. They start in the queue.`
+      : 'Counting incoming edges for every node. No node has in-degree 0, so every node waits on another one.',
+    actions: [
+      ...graph.nodes.map(n => labelNode(n, String(inDegree.get(n)))),
+      ...queue.map(n => markNode(n, 'queued')),
+      setList('Queue', [...queue]),
+      setList('Topological order', []),
+      setTable(table(queue)),
+    ],
+  });
+
+  let previous: string | null = null;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+
+    steps.push({
+      narration: `Taking ${current} from the queue and appending it to the order as position ${order.length}. Removing its outgoing edges.`,
+      actions: [
+        ...(previous ? [markNode(previous, 'visited')] : []),
+        markNode(current, 'current'),
+        setList('Queue', [...queue]),
+        setList('Topological order', [...order]),
+        setTable(table([current])),
+      ],
+    });
+    previous = current;
+
+    for (const { node, edge } of getNeighbors(graph, current)) {
+      inDegree.set(node, inDegree.get(node)! - 1);
+      const freed = inDegree.get(node) === 0;
+      if (freed) queue.push(node);
+      steps.push({
+        narration: freed
+          ? `Removing ${current}→${node}. ${node} now has in-degree 0, so it joins the queue.`
+          : `Removing ${current}→${node}. ${node} still has in-degree ${inDegree.get(node)}.`,
+        actions: [
+          markEdge(edge.id, 'selected'),
+          labelNode(node, String(inDegree.get(node))),
+          ...(freed ? [markNode(node, 'queued')] : []),
+          setList('Queue', [...queue]),
+          setTable(table([node])),
+        ],
+      });
+    }
+  }
+
+  const lead: StepAction[] = previous ? [markNode(previous, 'visited')] : [];
+  if (order.length === graph.nodes.length) {
+    steps.push({
+      narration: `Every node has been placed. Topological order: ${order.join(' → ')}.`,
+      actions: [...lead, setTable(table())],
+    });
+    return steps;
+  }
+
+  // Every blocked node has an incoming edge from another blocked node, so walking
+  // those edges backwards must eventually repeat a node, which closes a cycle
+  const blocked = new Set(graph.nodes.filter(n => !order.includes(n)));
+  const incoming = (node: string) => arcs.find(arc => arc.to === node && blocked.has(arc.from))!;
+  const seen: string[] = [];
+  let node = [...blocked][0];
+  while (!seen.includes(node)) {
+    seen.push(node);
+    node = incoming(node).from;
+  }
+  const cycle: Arc[] = [];
+  let current = node;
+  do {
+    const arc = incoming(current);
+    cycle.unshift(arc);
+    current = arc.from;
+  } while (current !== node);
+
+  steps.push(cycleStep(
+    graph,
+    cycle,
+    `The queue is empty, but ${[...blocked].join(', ')} still ${blocked.size === 1 ? 'has' : 'have'} incoming edges.`,
+    [...lead, setTable(table([...blocked]))]
+  ));
+  return steps;
+};
+
+export const dfsTopologicalSort = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const state = new Map<string, 'unvisited' | 'active' | 'finished'>(graph.nodes.map(n => [n, 'unvisited']));
+  const finish = new Map<string, number>();
+  const path: string[] = [];
+  const pathArcs: Arc[] = [];
+  // Reverse finishing order, built by prepending each node as it finishes
+  const order: string[] = [];
+  let time = 0;
+
+  const table = (highlight: string[] = []): TraceTable => ({
+    columns: ['Node', 'State', 'Finish'],
+    rows: graph.nodes.map(node => ({
+      key: node,
+      cells: [node, state.get(node)!, finish.has(node) ? String(finish.get(node)) : '-'],
+    })),
+    highlight,
+  });
+
+  // Returns the cycle closed by a back edge, if one is found
+  const visit = (nodeId: string): Arc[] | null => {
+    state.set(nodeId, 'active');
+    path.push(nodeId);
+    steps.push({
+      narration: `Visiting ${nodeId}. It stays on the stack until everything reachable from it has finished.`,
+      actions: [markNode(nodeId, 'current'), setList('Stack', [...path]), setTable(table([nodeId]))],
+    });
+
+    for (const arc of getArcs(graph).filter(a => a.from === nodeId)) {
+      const { to, edge } = arc;
+      if (state.get(to) === 'active') {
+        // A back edge to a node still on the stack closes a cycle
+        return [...pathArcs.slice(path.indexOf(to)), arc];
+      }
+      if (state.get(to) === 'finished') {
+        steps.push({
+          narration: `Edge ${nodeId}→${to} leads to ${to}, which has already finished. Nothing to do.`,
+          actions: [markEdge(edge.id, 'considered')],
+        });
+        continue;
+      }
+
+      steps.push({
+        narration: `Following ${nodeId}→${to}.`,
+        actions: [markNode(nodeId, 'queued'), markEdge(edge.id, 'selected')],
+      });
+      pathArcs.push(arc);
+      const cycle = visit(to);
+      if (cycle) return cycle;
+      pathArcs.pop();
+      steps.push({
+        narration: `Back at ${nodeId} after ${to} finished.`,
+        actions: [markNode(nodeId, 'current'), setList('Stack', [...path])],
+      });
+    }
+
+    path.pop();
+    state.set(nodeId, 'finished');
+    finish.set(nodeId, ++time);
+    order.unshift(nodeId);
+    steps.push({
+      narration: `${nodeId} finishes at time ${time}. Everything that depends on it is already in the order, so it goes in front.`,
+      actions: [
+        markNode(nodeId, 'visited'),
+        labelNode(nodeId, `f=${time}`),
+        setList('Stack', [...path]),
+        setList('Topological order', [...order]),
+        setMetric('Time', time),
+        setTable(table([nodeId])),
+      ],
+    });
+    return null;
+  };
+
+  steps.push({
+    narration: 'Running DFS from every unvisited node. Listing nodes by decreasing finish time gives a topological order.',
+    actions: [setList('Topological order', []), setMetric('Time', 0), setTable(table())],
+  });
+
+  for (const node of graph.nodes) {
+    if (state.get(node) !== 'unvisited') continue;
+    const cycle = visit(node);
+    if (cycle) {
+      const back = cycle[cycle.length - 1];
+      steps.push(cycleStep(
+        graph,
+        cycle,
+        `Edge ${back.from}→${back.to} points back to ${back.to}, which is still on the stack.`,
+        [setTable(table(cycle.map(arc => arc.from)))]
+      ));
+      return steps;
+    }
+  }
+
+  steps.push({
+    narration: `Every node has finished. Topological order (by decreasing finish time): ${order.join(' → ')}.`,
+    actions: [setTable(table())],
+  });
+  return steps;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { applyStep, createFrameStore, emptyFrame, markEdge, markNode, setList, setMetric, setTable, setTableRow } from './trace';
+import type { Frame, Step } from './types';
+
+// Enough steps to span several checkpoints, touching every part of the frame
+const longTrace = (count: number): Step[] =>
+  Array.from({ length: count }, (_, i) => ({
+    narration: `step ${i}`,
+    actions: [
+      markNode(`N${i % 7}`, i % 2 === 0 ? 'current' : 'visited'),
+      markEdge(String(i % 5), 'selected'),
+      setMetric('Step', i),
+      setList('Queue', [`N${i}`]),
+      ...(i % 50 === 0 ? [setTable({ columns: ['Node', 'Step'], rows: [0, 1, 2].map(n => ({ key: `N${n}`, cells: [`N${n}`, '-'] })) })] : []),
+      ...(i % 3 === 0 ? [setTableRow(`N${i % 3}`, [`N${i % 3}`, String(i)])] : []),
+    ],
+  }));
+
+// Every frame, computed the slow way
+const foldFrames = (steps: Step[]): Frame[] => {
+  const frames: Frame[] = [];
+  let frame = emptyFrame();
+  for (const step of steps) {
+    frame = applyStep(frame, step);
+    frames.push(frame);
+  }
+  return frames;
+};
+
+describe('applyStep', () => {
+  it('leaves the previous frame untouched', () => {
+    const before = applyStep(emptyFrame(), { narration: 'a', actions: [markNode('A', 'current')] });
+    const after = applyStep(before, { narration: 'b', actions: [markNode('A', 'visited'), markNode('B', 'queued')] });
+    expect(before.nodes).toEqual({ A: { status: 'current' } });
+    expect(after.nodes).toEqual({ A: { status: 'visited' }, B: { status: 'queued' } });
+    expect(after.narration).toBe('b');
+  });
+
+  it('replaces one table row and highlights it', () => {
+    const withTable = applyStep(emptyFrame(), {
+      narration: '',
+      actions: [setTable({ columns: ['Node', 'Distance'], rows: [{ key: 'A', cells: ['A', '0'] }, { key: 'B', cells: ['B', '∞'] }] })],
+    });
+    const next = applyStep(withTable, { narration: '', actions: [setTableRow('B', ['B', '4'])] });
+    expect(next.table?.rows.map(r => r.cells)).toEqual([['A', '0'], ['B', '4']]);
+    expect(next.table?.highlight).toEqual(['B']);
+    expect(withTable.table?.rows[1].cells).toEqual(['B', '∞']);
+  });
+
+  it('ignores a row update when there is no table', () => {
+    expect(applyStep(emptyFrame(), { narration: '', actions: [setTableRow('A', ['A'])] }).table).toBeNull();
+  });
+});
+
+describe('createFrameStore', () => {
+  const steps = longTrace(300);
+  const expected = foldFrames(steps);
+
+  it('rebuilds every frame from the checkpoints', () => {
+    const store = createFrameStore(steps);
+    expect(store.total).toBe(300);
+    steps.forEach((_, i) => expect(store.frameAt(i)).toEqual(expected[i]));
+  });
+
+  it('gives the same frame when seeking back and forth', () => {
+    const store = createFrameStore(steps);
+    for (const index of [299, 0, 150, 64, 63, 65, 128, 1, 299]) {
+      expect(store.frameAt(index)).toEqual(expected[index]);
+    }
+  });
+
+  it('hands out frames that can be changed without affecting later lookups', () => {
+    const store = createFrameStore(steps);
+    const frame = store.frameAt(70)!;
+    frame.nodes.N0 = { status: 'conflict' };
+    frame.metrics.Step = -1;
+    expect(store.frameAt(70)).toEqual(expected[70]);
+    expect(store.frameAt(64)).toEqual(expected[64]);
+  });
+
+  it('returns null outside the trace', () => {
+    const store = createFrameStore(steps);
+    expect(store.frameAt(-1)).toBeNull();
+    expect(store.frameAt(300)).toBeNull();
+    expect(createFrameStore([]).frameAt(0)).toBeNull();
+  });
+});
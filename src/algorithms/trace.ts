@@ -0,0 +1,141 @@
+import type { EdgeStatus, Frame, NodeStatus, Step, StepAction, TraceMatrix, TraceTable } from './types';
+
+// Action creators used by the algorithms
+export const markNode = (id: string, status: NodeStatus): StepAction => ({ type: 'node', id, status });
+
+export const labelNode = (id: string, label: string): StepAction => ({ type: 'node-label', id, label });
+
+export const groupNode = (id: string, group: number): StepAction => ({ type: 'node-group', id, group });
+
+export const markEdge = (id: string, status: EdgeStatus): StepAction => ({ type: 'edge', id, status });
+
+export const labelEdge = (id: string, label: string): StepAction => ({ type: 'edge-label', id, label });
+
+export const groupEdge = (id: string, group: number): StepAction => ({ type: 'edge-group', id, group });
+
+export const setFlow = (id: string, flow: number): StepAction => ({ type: 'edge-flow', id, flow });
+
+export const setList = (name: string, items: string[]): StepAction => ({ type: 'list', name, items });
+
+export const setMetric = (name: string, value: number | string): StepAction => ({ type: 'metric', name, value });
+
+export const setTable = (table: TraceTable): StepAction => ({ type: 'table', table });
+
+export const setTableRow = (key: string, cells: string[]): StepAction => ({ type: 'table-row', key, cells });
+
+export const setMatrix = (matrix: TraceMatrix): StepAction => ({ type: 'matrix', matrix });
+
+export const setTransposed = (transposed: boolean): StepAction => ({ type: 'transpose', transposed });
+
+export const emptyFrame = (): Frame => ({
+  nodes: {},
+  edges: {},
+  lists: {},
+  metrics: {},
+  table: null,
+  matrix: null,
+  transposed: false,
+  narration: '',
+});
+
+// Copies the maps so the copy can be updated without touching the original; marks are replaced, never mutated
+const copyFrame = (frame: Frame): Frame => ({
+  nodes: { ...frame.nodes },
+  edges: { ...frame.edges },
+  lists: { ...frame.lists },
+  metrics: { ...frame.metrics },
+  table: frame.table,
+  matrix: frame.matrix,
+  transposed: frame.transposed,
+  narration: frame.narration,
+});
+
+// Applies a step to a frame in place
+const applyActions = (next: Frame, step: Step) => {
+  next.narration = step.narration;
+  for (const action of step.actions) {
+    switch (action.type) {
+      case 'node':
+        next.nodes[action.id] = { ...next.nodes[action.id], status: action.status };
+        break;
+      case 'node-label':
+        next.nodes[action.id] = { ...(next.nodes[action.id] ?? { status: 'idle' }), label: action.label };
+        break;
+      case 'node-group':
+        next.nodes[action.id] = { ...(next.nodes[action.id] ?? { status: 'idle' }), group: action.group };
+        break;
+      case 'edge':
+        next.edges[action.id] = { ...next.edges[action.id], status: action.status };
+        break;
+      case 'edge-label':
+        next.edges[action.id] = { ...(next.edges[action.id] ?? { status: 'idle' }), label: action.label };
+        break;
+      case 'edge-group':
+        next.edges[action.id] = { ...(next.edges[action.id] ?? { status: 'idle' }), group: action.group };
+        break;
+      case 'edge-flow':
+        next.edges[action.id] = { ...(next.edges[action.id] ?? { status: 'idle' }), flow: action.flow };
+        break;
+      case 'list':
+        next.lists[action.name] = action.items;
+        break;
+      case 'metric':
+        next.metrics[action.name] = action.value;
+        break;
+      case 'table':
+        next.table = action.table;
+        break;
+      case 'table-row':
+        if (next.table) {
+          next.table = {
+            ...next.table,
+            rows: next.table.rows.map(row => (row.key === action.key ? { key: action.key, cells: action.cells } : row)),
+            highlight: [action.key],
+          };
+        }
+        break;
+      case 'matrix':
+        next.matrix = action.matrix;
+        break;
+      case 'transpose':
+        next.transposed = action.transposed;
+        break;
+    }
+  }
+};
+
+export const applyStep = (frame: Frame, step: Step): Frame => {
+  const next = copyFrame(frame);
+  applyActions(next, step);
+  return next;
+};
+
+// Steps between stored frames; any frame is at most this many steps from a stored one
+const CHECKPOINT_INTERVAL = 64;
+
+export interface FrameStore {
+  total: number;
+  // The state after steps[0..index] have been applied
+  frameAt: (index: number) => Frame | null;
+}
+
+// Keeping every frame costs steps × (nodes + edges) memory, so only every CHECKPOINT_INTERVAL-th
+// frame is kept and the ones in between are rebuilt from the checkpoint before them
+export const createFrameStore = (steps: Step[]): FrameStore => {
+  const checkpoints: Frame[] = [];
+  const frame = emptyFrame();
+  steps.forEach((step, i) => {
+    applyActions(frame, step);
+    if (i % CHECKPOINT_INTERVAL === 0) checkpoints.push(copyFrame(frame));
+  });
+
+  const frameAt = (index: number) => {
+    if (index < 0 || index >= steps.length) return null;
+    const start = index - (index % CHECKPOINT_INTERVAL);
+    const next = copyFrame(checkpoints[start / CHECKPOINT_INTERVAL]);
+    for (let i = start + 1; i <= index; i++) applyActions(next, steps[i]);
+    return next;
+  };
+
+  return { total: steps.length, frameAt };
+};
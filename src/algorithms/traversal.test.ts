@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { edgesWith, finalFrame, graphOf, visitOrder } from '../test/graphs';
+import { bfs, bfsComponents, dfs } from './traversal';
+
+//   A - B - D
+//   |   |
+//   C - E   F (isolated)
+const graph = graphOf('A-B A-C B-D B-E C-E', { weighted: false, nodes: ['F'] });
+
+describe('bfs', () => {
+  it('visits level by level in edge order', () => {
+    expect(visitOrder(bfs(graph, 'A'))).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  it('selects the edges that discovered each node', () => {
+    const frame = finalFrame(bfs(graph, 'A'));
+    expect(edgesWith(frame, 'selected')).toEqual(['0', '1', '2', '3']);
+    expect(frame.nodes.F).toBeUndefined();
+    expect(frame.lists.Queue).toEqual([]);
+  });
+
+  it('only follows edges forwards in a directed graph', () => {
+    expect(visitOrder(bfs(graphOf('A-B C-A B-C', { directed: true }), 'B'))).toEqual(['B', 'C', 'A']);
+  });
+});
+
+describe('dfs', () => {
+  it('goes as deep as possible before backtracking', () => {
+    expect(visitOrder(dfs(graph, 'A'))).toEqual(['A', 'B', 'D', 'E', 'C']);
+  });
+
+  it('ends with every reachable node visited and the stack empty', () => {
+    const frame = finalFrame(dfs(graph, 'A'));
+    expect(Object.keys(frame.nodes).sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(Object.values(frame.nodes).every(mark => mark.status === 'visited')).toBe(true);
+    expect(edgesWith(frame, 'selected')).toEqual(['0', '2', '3', '4']);
+    expect(frame.lists.Stack).toEqual([]);
+  });
+});
+
+describe('bfsComponents', () => {
+  it('gives each connected component its own group', () => {
+    const frame = finalFrame(bfsComponents(graphOf('A-B C-D D-E', { nodes: ['F'] })));
+    expect(frame.lists.Components).toEqual(['{A, B}', '{C, D, E}', '{F}']);
+    expect(Object.fromEntries(Object.entries(frame.nodes).map(([id, mark]) => [id, mark.group]))).toEqual({
+      A: 0, B: 0, C: 1, D: 1, E: 1, F: 2,
+    });
+    expect(frame.edges['2'].group).toBe(1);
+  });
+});
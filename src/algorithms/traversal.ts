@@ -0,0 +1,169 @@
+import { getNeighbors, type Graph } from './graph';
+import { groupEdge, groupNode, markEdge, markNode, setList, setMetric } from './trace';
+import type { Step, StepAction } from './types';
+
+export const bfs = (graph: Graph, start: string): Step[] => {
+  const steps: Step[] = [];
+  const queue: string[] = [start];
+  const discovered = new Set<string>([start]);
+
+  steps.push({
+    narration: `Starting BFS from node ${start}. Adding ${start} to the queue.`,
+    actions: [markNode(start, 'queued'), setList('Queue', [...queue])],
+  });
+
+  let previous: string | null = null;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    steps.push({
+      narration: `Visiting node ${current}. Marking it as visited and exploring its neighbors.`,
+      actions: [
+        ...(previous ? [markNode(previous, 'visited')] : []),
+        markNode(current, 'current'),
+        setList('Queue', [...queue]),
+      ],
+    });
+    previous = current;
+
+    const fresh = getNeighbors(graph, current).filter(n => !discovered.has(n.node));
+    const actions: StepAction[] = [];
+    for (const { node, edge } of fresh) {
+      if (discovered.has(node)) continue;
+      discovered.add(node);
+      queue.push(node);
+      actions.push(markEdge(edge.id, 'selected'), markNode(node, 'queued'));
+    }
+    actions.push(setList('Queue', [...queue]));
+
+    const found = fresh.length > 0
+      ? `Found unvisited neighbors of ${current}: ${[...new Set(fresh.map(n => n.node))].join(', ')}. Adding them to the queue.`
+      : `Node ${current} has no unvisited neighbors.`;
+    const next = queue.length > 0
+      ? ` Queue now contains: [${queue.join(', ')}]. Next, we'll process ${queue[0]}.`
+      : '';
+    steps.push({ narration: found + next, actions });
+  }
+
+  steps.push({
+    narration: 'Queue is empty. BFS traversal complete!',
+    actions: previous ? [markNode(previous, 'visited')] : [],
+  });
+
+  return steps;
+};
+
+export const dfs = (graph: Graph, start: string): Step[] => {
+  const steps: Step[] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (nodeId: string) => {
+    visited.add(nodeId);
+    path.push(nodeId);
+
+    const unvisited = getNeighbors(graph, nodeId).filter(n => !visited.has(n.node));
+    steps.push({
+      narration: unvisited.length > 0
+        ? `Visiting node ${nodeId}. Found unvisited neighbors: ${[...new Set(unvisited.map(n => n.node))].join(', ')}. Exploring depth-first.`
+        : `Visiting node ${nodeId}. Marking it as visited and going deeper into its neighbors.`,
+      actions: [markNode(nodeId, 'current'), setList('Stack', [...path])],
+    });
+
+    for (const { node, edge } of unvisited) {
+      if (visited.has(node)) continue;
+      steps.push({
+        narration: `Moving from ${nodeId} to ${node} and exploring deeper.`,
+        actions: [markNode(nodeId, 'visited'), markEdge(edge.id, 'selected')],
+      });
+      visit(node);
+      steps.push({
+        narration: `Back at ${nodeId} after finishing ${node}.`,
+        actions: [markNode(nodeId, 'current'), setList('Stack', [...path])],
+      });
+    }
+
+    path.pop();
+    steps.push({
+      narration: path.length > 0
+        ? `Node ${nodeId} has no unvisited neighbors. Backtracking...`
+        : `Node ${nodeId} has no unvisited neighbors. DFS traversal complete!`,
+      actions: [markNode(nodeId, 'visited'), setList('Stack', [...path])],
+    });
+  };
+
+  visit(start);
+  return steps;
+};
+
+// BFS restarted from every undiscovered node; each restart sweeps one connected component
+export const bfsComponents = (graph: Graph): Step[] => {
+  const steps: Step[] = [];
+  const componentOf = new Map<string, number>();
+  const components: string[][] = [];
+  const formatComponent = (members: string[]) => `{${members.join(', ')}}`;
+
+  steps.push({
+    narration: 'Finding connected components. BFS starts from the first node and restarts from the next undiscovered node whenever the queue runs dry.',
+    actions: [setList('Components', []), setMetric('Components', 0)],
+  });
+
+  let previous: string | null = null;
+  for (const root of graph.nodes) {
+    if (componentOf.has(root)) continue;
+    const group = components.length;
+    const members = [root];
+    const queue = [root];
+    componentOf.set(root, group);
+    steps.push({
+      narration: `${root} has not been discovered yet, so BFS ${group === 0 ? 'starts' : 'restarts'} there. Everything it reaches belongs to component ${group + 1}.`,
+      actions: [
+        markNode(root, 'queued'),
+        groupNode(root, group),
+        setList('Queue', [...queue]),
+        setMetric('Components', group + 1),
+      ],
+    });
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const actions: StepAction[] = [
+        ...(previous ? [markNode(previous, 'visited')] : []),
+        markNode(current, 'current'),
+      ];
+      previous = current;
+      const found: string[] = [];
+      for (const { node, edge } of getNeighbors(graph, current)) {
+        if (componentOf.has(node)) continue;
+        componentOf.set(node, group);
+        members.push(node);
+        queue.push(node);
+        found.push(node);
+        actions.push(groupEdge(edge.id, group), groupNode(node, group), markNode(node, 'queued'));
+      }
+      steps.push({
+        narration: found.length > 0
+          ? `Visiting ${current}. Discovered ${found.join(', ')}, which ${found.length === 1 ? 'joins' : 'join'} component ${group + 1}.`
+          : `Visiting ${current}. It has no undiscovered neighbors.`,
+        actions: [...actions, setList('Queue', [...queue])],
+      });
+    }
+
+    components.push(members);
+    steps.push({
+      narration: `The queue is empty, so component ${group + 1} is complete: ${formatComponent(members)}.`,
+      actions: [
+        ...graph.edges
+          .filter(e => componentOf.get(e.source) === group && componentOf.get(e.target) === group)
+          .map(e => groupEdge(e.id, group)),
+        setList('Components', components.map(formatComponent)),
+      ],
+    });
+  }
+
+  steps.push({
+    narration: `Every node has been discovered. The graph has ${components.length} connected component${components.length === 1 ? '' : 's'}.`,
+    actions: previous ? [markNode(previous, 'visited')] : [],
+  });
+  return steps;
+};
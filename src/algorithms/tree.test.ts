@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { finalFrame } from '../test/graphs';
+import { deleteBSTSteps, insertBSTSteps, queryBSTSteps, traverseTreeSteps, type BSTQuery, type TreeNode } from './tree';
+import type { Step } from './types';
+
+const leaf = (value: number): TreeNode => ({ value, left: null, right: null });
+
+//      50
+//    30  70
+//  20  40  80
+const root: TreeNode = {
+  value: 50,
+  left: { value: 30, left: leaf(20), right: leaf(40) },
+  right: { value: 70, left: null, right: leaf(80) },
+};
+
+const inorder = (node: TreeNode | null): number[] => (node ? [...inorder(node.left), node.value, ...inorder(node.right)] : []);
+
+const visited = (steps: Step[]) =>
+  steps.flatMap(s => s.actions.flatMap(a => (a.type === 'node' && a.status === 'visited' ? [a.id] : [])));
+
+describe('traverseTreeSteps', () => {
+  it('visits in preorder, inorder and postorder', () => {
+    expect(visited(traverseTreeSteps(root, 'preorder'))).toEqual(['50', '30', '20', '40', '70', '80']);
+    expect(visited(traverseTreeSteps(root, 'inorder'))).toEqual(['20', '30', '40', '50', '70', '80']);
+    expect(visited(traverseTreeSteps(root, 'postorder'))).toEqual(['20', '40', '30', '80', '70', '50']);
+  });
+
+  it('walks each edge once, on the way to the child', () => {
+    const edges = traverseTreeSteps(root, 'inorder').flatMap(s => s.actions.flatMap(a => (a.type === 'edge' ? [a.id] : [])));
+    expect(edges).toEqual(['30', '20', '40', '70', '80']);
+  });
+
+  it('has nothing to do for an empty tree', () => {
+    expect(traverseTreeSteps(null, 'preorder')).toEqual([]);
+  });
+});
+
+describe('deleteBSTSteps', () => {
+  const original = JSON.stringify(root);
+
+  it('cuts off a leaf and splices out a node with one child', () => {
+    expect(inorder(deleteBSTSteps(root, 20, 'successor').tree)).toEqual([30, 40, 50, 70, 80]);
+    const { tree, steps } = deleteBSTSteps(root, 70, 'successor');
+    expect(tree!.right).toBe(root.right!.right);
+    expect(steps[steps.length - 1].narration).toBe('Deleted 70. Every value under 80 was already on the correct side of 50, so the tree is still a BST.');
+  });
+
+  it('replaces a node with two children by its successor or predecessor', () => {
+    const successor = deleteBSTSteps(root, 50, 'successor').tree!;
+    expect(successor.value).toBe(70);
+    expect(inorder(successor)).toEqual([20, 30, 40, 70, 80]);
+    const predecessor = deleteBSTSteps(root, 50, 'predecessor').tree!;
+    expect(predecessor.value).toBe(40);
+    expect(predecessor.left).toEqual({ value: 30, left: leaf(20), right: null });
+    expect(JSON.stringify(root)).toBe(original);
+  });
+
+  it('leaves the tree as it is when the value is missing', () => {
+    const { tree, steps } = deleteBSTSteps(root, 60, 'successor');
+    expect(tree).toBe(root);
+    expect(steps[steps.length - 1].narration).toBe('The left child of 70 is empty, so 60 is not in the tree. Nothing to delete.');
+    expect(deleteBSTSteps(null, 1, 'successor').tree).toBeNull();
+  });
+});
+
+describe('insertBSTSteps', () => {
+  it('walks the search path and hangs the value off the empty child', () => {
+    const { tree, steps } = insertBSTSteps(root, 45);
+    expect(inorder(tree)).toEqual([20, 30, 40, 45, 50, 70, 80]);
+    expect(finalFrame(steps).metrics.Comparisons).toBe(3);
+    expect(steps[steps.length - 1].narration).toBe('The right child of 40 is empty, so 45 is inserted there.');
+  });
+
+  it('keeps the tree when the value is already there', () => {
+    expect(insertBSTSteps(root, 40).tree).toBe(root);
+    expect(inorder(insertBSTSteps(null, 7).tree)).toEqual([7]);
+  });
+});
+
+describe('queryBSTSteps', () => {
+  const answer = (query: BSTQuery) => {
+    const steps = queryBSTSteps(root, query);
+    return steps[steps.length - 1].narration;
+  };
+
+  it('searches and finds the extremes', () => {
+    expect(answer({ kind: 'search', value: 40 })).toBe('40 is in the tree.');
+    expect(answer({ kind: 'search', value: 60 })).toBe('The left child of 70 is empty, so 60 is not in the tree.');
+    expect(answer({ kind: 'min' })).toBe('The minimum is 20.');
+    expect(answer({ kind: 'max' })).toBe('The maximum is 80.');
+  });
+
+  it('finds floor, ceiling, successor and predecessor', () => {
+    expect(answer({ kind: 'floor', value: 45 })).toBe('The right child of 40 is empty, so the search ends. The floor of 45 is 40.');
+    expect(answer({ kind: 'ceiling', value: 45 })).toBe('The right child of 40 is empty, so the search ends. The ceiling of 45 is 50.');
+    expect(answer({ kind: 'floor', value: 50 })).toBe('The floor of 50 is 50.');
+    expect(answer({ kind: 'successor', value: 50 })).toBe('The left child of 70 is empty, so the search ends. The successor of 50 is 70.');
+    expect(answer({ kind: 'predecessor', value: 50 })).toBe('The right child of 40 is empty, so the search ends. The predecessor of 50 is 40.');
+    expect(answer({ kind: 'floor', value: 10 })).toBe('The left child of 20 is empty, so the search ends. No value in the tree is at or below 10, so it has no floor.');
+  });
+
+  it('reports a range in order and skips subtrees outside it', () => {
+    const frame = finalFrame(queryBSTSteps(root, { kind: 'range', lo: 45, hi: 75 }));
+    expect(frame.lists['In range']).toEqual(['50', '70']);
+    expect(frame.metrics['Nodes visited']).toBe(5);
+  });
+});
@@ -0,0 +1,448 @@
+import { labelNode, markEdge, markNode, setList, setMetric } from './trace';
+import type { NodeStatus, Step, StepAction } from './types';
+
+export interface TreeNode {
+  value: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+export type TraversalOrder = 'preorder' | 'inorder' | 'postorder';
+
+// Tree nodes are keyed by value; the edge into a node is keyed by the child's value
+export const treeNodeId = (value: number): string => String(value);
+
+export const traverseTreeSteps = (root: TreeNode | null, order: TraversalOrder): Step[] => {
+  const steps: Step[] = [];
+  const result: number[] = [];
+  let walked: StepAction[] = [];
+
+  const output = (node: TreeNode) => {
+    result.push(node.value);
+    steps.push({
+      narration: `Visit ${node.value}. Order so far: [${result.join(', ')}].`,
+      actions: [...walked, markNode(treeNodeId(node.value), 'visited'), setList('Visited', result.map(String))],
+    });
+    walked = [];
+  };
+
+  const traverse = (node: TreeNode | null) => {
+    if (!node) return;
+
+    if (order === 'preorder') output(node);
+    if (node.left) {
+      walked.push(markEdge(treeNodeId(node.left.value), 'selected'));
+      traverse(node.left);
+    }
+    if (order === 'inorder') output(node);
+    if (node.right) {
+      walked.push(markEdge(treeNodeId(node.right.value), 'selected'));
+      traverse(node.right);
+    }
+    if (order === 'postorder') output(node);
+  };
+
+  traverse(root);
+  return steps;
+};
+
+export type Replacement = 'successor' | 'predecessor';
+
+export type Side = 'left' | 'right';
+
+// A structural change together with the steps that animate it. Every step but the last is
+// drawn on the tree before the change; the last one is drawn on the resulting tree.
+export interface TreeEdit {
+  tree: TreeNode | null;
+  steps: Step[];
+}
+
+export type BSTQueryKind = 'search' | 'min' | 'max' | 'floor' | 'ceiling' | 'successor' | 'predecessor' | 'range';
+
+export type BSTQuery =
+  | { kind: 'min' | 'max' }
+  | { kind: 'search' | 'floor' | 'ceiling' | 'successor' | 'predecessor'; value: number }
+  | { kind: 'range'; lo: number; hi: number };
+
+// Queries offered by the tree visualizer and how many numbers each one takes
+export const BST_QUERIES: { id: BSTQueryKind; label: string; operands: 0 | 1 | 2 }[] = [
+  { id: 'search', label: 'Search', operands: 1 },
+  { id: 'min', label: 'Minimum', operands: 0 },
+  { id: 'max', label: 'Maximum', operands: 0 },
+  { id: 'floor', label: 'Floor', operands: 1 },
+  { id: 'ceiling', label: 'Ceiling', operands: 1 },
+  { id: 'successor', label: 'Successor', operands: 1 },
+  { id: 'predecessor', label: 'Predecessor', operands: 1 },
+  { id: 'range', label: 'Range [lo, hi]', operands: 2 },
+];
+
+const id = (node: TreeNode) => treeNodeId(node.value);
+
+const symbol = (a: number, b: number) => (a < b ? '<' : a > b ? '>' : '=');
+
+// Smallest (going left) or largest (going right) node of a subtree
+const extreme = (node: TreeNode, side: Side): TreeNode => {
+  let current = node;
+  while (current[side]) current = current[side]!;
+  return current;
+};
+
+// What a walk down the tree does at one node
+interface Turn {
+  // Child to continue with; null ends the walk at this node
+  go: Side | null;
+  narration: string;
+  // Shown beside the node for the rest of the trace, e.g. "42 < 50: go left"
+  note: string;
+  // How the node stays marked once the walk has moved on
+  status?: NodeStatus;
+  actions?: StepAction[];
+}
+
+// Walks down from the root, one comparison per step. Returns the node the walk stopped at, or
+// null with the parent whose empty child it ran into, plus the actions that settle the last
+// node's mark for the caller's closing step.
+const descend = (root: TreeNode | null, steps: Step[], turn: (node: TreeNode) => Turn) => {
+  let node = root;
+  let parent: TreeNode | null = null;
+  let side: Side | null = null;
+  let settle: StepAction[] = [];
+  let comparisons = 0;
+  while (node) {
+    const next = turn(node);
+    comparisons++;
+    steps.push({
+      narration: next.narration,
+      actions: [
+        ...settle,
+        ...(parent ? [markEdge(id(node), 'selected')] : []),
+        markNode(id(node), 'current'),
+        labelNode(id(node), next.note),
+        setMetric('Comparisons', comparisons),
+        ...(next.actions ?? []),
+      ],
+    });
+    settle = [markNode(id(node), next.status ?? 'visited')];
+    if (!next.go) return { node, parent, side, settle };
+    parent = node;
+    side = next.go;
+    node = node[next.go];
+  }
+  return { node: null, parent, side, settle };
+};
+
+// The ordinary BST comparison: smaller values live on the left
+const toward = (value: number, node: TreeNode): Turn => {
+  const go: Side = value < node.value ? 'left' : 'right';
+  const comparison = `${value} ${symbol(value, node.value)} ${node.value}`;
+  return {
+    go,
+    narration: `Compare ${value} with ${node.value}: ${comparison}, so go ${go}.`,
+    note: `${comparison}: go ${go}`,
+  };
+};
+
+const insertBST = (node: TreeNode | null, value: number): TreeNode => {
+  if (!node) return { value, left: null, right: null };
+  if (value < node.value) return { ...node, left: insertBST(node.left, value) };
+  if (value > node.value) return { ...node, right: insertBST(node.right, value) };
+  return node;
+};
+
+// Insertion walks the same path a search would and hangs the value off the empty child it ends on
+export const insertBSTSteps = (root: TreeNode | null, value: number): TreeEdit => {
+  const steps: Step[] = [];
+  const tree = insertBST(root, value);
+  const { node, parent, side, settle } = descend(root, steps, node => node.value === value
+    ? { go: null, narration: `${value} is already in the tree, so nothing is inserted.`, note: 'already here' }
+    : toward(value, node));
+  if (node) return { tree: root, steps };
+
+  steps.push({
+    narration: parent
+      ? `The ${side} child of ${parent.value} is empty, so ${value} is inserted there.`
+      : `The tree is empty, so ${value} becomes the root.`,
+    actions: [
+      ...settle,
+      ...(parent ? [markEdge(treeNodeId(value), 'selected')] : []),
+      markNode(treeNodeId(value), 'path'),
+    ],
+  });
+  return { tree, steps };
+};
+
+// Removes value from the BST, replacing a node with two children by its in-order successor
+// or predecessor. The nodes along the way are copied; the input tree is left untouched.
+const removeBST = (node: TreeNode | null, value: number, replacement: Replacement): TreeNode | null => {
+  if (!node) return null;
+  if (value < node.value) return { ...node, left: removeBST(node.left, value, replacement) };
+  if (value > node.value) return { ...node, right: removeBST(node.right, value, replacement) };
+  if (!node.left) return node.right;
+  if (!node.right) return node.left;
+  const stand = replacement === 'successor' ? extreme(node.right, 'left') : extreme(node.left, 'right');
+  return replacement === 'successor'
+    ? { value: stand.value, left: node.left, right: removeBST(node.right, stand.value, replacement) }
+    : { value: stand.value, left: removeBST(node.left, stand.value, replacement), right: node.right };
+};
+
+export const deleteBSTSteps = (root: TreeNode | null, value: number, replacement: Replacement): TreeEdit => {
+  const steps: Step[] = [];
+  const { node: target, parent, side, settle } = descend(root, steps, node => node.value === value
+    ? { go: null, narration: `Found ${value}.`, note: 'delete', actions: [markNode(id(node), 'conflict')] }
+    : toward(value, node));
+
+  if (!target) {
+    steps.push({
+      narration: parent
+        ? `The ${side} child of ${parent.value} is empty, so ${value} is not in the tree. Nothing to delete.`
+        : `The tree is empty, so ${value} is not in it. Nothing to delete.`,
+      actions: settle,
+    });
+    return { tree: root, steps };
+  }
+
+  const tree = removeBST(root, value, replacement);
+
+  // Leaf: nothing hangs below it
+  if (!target.left && !target.right) {
+    steps.push({ narration: `${value} is a leaf, so it can simply be cut off.`, actions: [] });
+    steps.push({
+      narration: parent ? `Deleted ${value}; the ${side} child of ${parent.value} is now empty.` : `Deleted ${value}; the tree is now empty.`,
+      actions: [],
+    });
+    return { tree, steps };
+  }
+
+  // One child: it moves up into the deleted node's place
+  if (!target.left || !target.right) {
+    const child = (target.left ?? target.right)!;
+    const where = parent ? `the ${side} child of ${parent.value}` : 'the root';
+    steps.push({
+      narration: `${value} has only a ${target.left ? 'left' : 'right'} child, ${child.value}. Splice ${value} out: ${child.value}'s subtree moves up to become ${where}.`,
+      actions: [markNode(id(child), 'path')],
+    });
+    steps.push({
+      narration: parent
+        ? `Deleted ${value}. Every value under ${child.value} was already on the correct side of ${parent.value}, so the tree is still a BST.`
+        : `Deleted ${value}. ${child.value} is the new root.`,
+      actions: [markNode(id(child), 'path')],
+    });
+    return { tree, steps };
+  }
+
+  // Two children: find the node that can take its place, swap values, then delete that node,
+  // which has at most one child
+  const [first, inner] = replacement === 'successor' ? ['right', 'left'] as const : ['left', 'right'] as const;
+  steps.push({
+    narration: `${value} has two children. It is replaced by its in-order ${replacement}, the ${replacement === 'successor' ? 'smallest value in its right' : 'largest value in its left'} subtree: go ${first} once, then ${inner} as far as possible.`,
+    actions: [],
+  });
+
+  let stand = target[first]!;
+  let previous: TreeNode | null = null;
+  while (true) {
+    const next: TreeNode | null = stand[inner];
+    steps.push({
+      narration: next
+        ? `${stand.value} has a ${inner} child, ${next.value}, so keep going ${inner}.`
+        : `${stand.value} has no ${inner} child, so ${stand.value} is the in-order ${replacement} of ${value}.`,
+      actions: [
+        ...(previous ? [markNode(id(previous), 'visited')] : []),
+        markEdge(id(stand), 'selected'),
+        markNode(id(stand), next ? 'current' : 'path'),
+        labelNode(id(stand), next ? `go ${inner}` : replacement),
+      ],
+    });
+    if (!next) break;
+    previous = stand;
+    stand = next;
+  }
+
+  const orphan = stand[first];
+  steps.push({
+    narration: `Swap the values: ${stand.value} moves up into the node that held ${value}, and ${value} moves down to where ${stand.value} was. The BST order still holds everywhere except at ${value}.`,
+    actions: [
+      labelNode(id(target), `now ${stand.value}`),
+      labelNode(id(stand), `now ${value}`),
+      markNode(id(target), 'path'),
+      markNode(id(stand), 'conflict'),
+    ],
+  });
+  steps.push({
+    narration: orphan
+      ? `${value} now sits in a node with only a ${first} child, ${orphan.value}, which moves up to take its place.`
+      : `${value} now sits in a leaf, which is cut off.`,
+    actions: orphan ? [markNode(id(orphan), 'path')] : [],
+  });
+  steps.push({
+    narration: `Deleted ${value}. Its in-order ${replacement} ${stand.value} took its place, so the tree is still a BST.`,
+    actions: [markNode(id(stand), 'path'), labelNode(id(stand), '')],
+  });
+  return { tree, steps };
+};
+
+// Min and max follow one side to the end
+const extremeSteps = (root: TreeNode | null, side: Side): Step[] => {
+  const steps: Step[] = [];
+  const name = side === 'left' ? 'minimum' : 'maximum';
+  const { node } = descend(root, steps, node => {
+    const child = node[side];
+    return child
+      ? {
+          go: side,
+          narration: `${node.value} has a ${side} child, ${child.value} ${side === 'left' ? '<' : '>'} ${node.value}, so the ${name} is further ${side}: go ${side}.`,
+          note: `${child.value} ${side === 'left' ? '<' : '>'} ${node.value}: go ${side}`,
+        }
+      : { go: null, narration: `${node.value} has no ${side} child, so it is the ${name}.`, note: name, status: 'path' };
+  });
+  steps.push({
+    narration: node ? `The ${name} is ${node.value}.` : `The tree is empty, so it has no ${name}.`,
+    actions: node ? [markNode(id(node), 'path')] : [],
+  });
+  return steps;
+};
+
+const searchSteps = (root: TreeNode | null, value: number): Step[] => {
+  const steps: Step[] = [];
+  const { node, parent, side, settle } = descend(root, steps, node => node.value === value
+    ? { go: null, narration: `Compare ${value} with ${node.value}: they are equal. Found it!`, note: `${value} = ${node.value}: found`, status: 'path' }
+    : toward(value, node));
+  steps.push({
+    narration: node
+      ? `${value} is in the tree.`
+      : parent
+        ? `The ${side} child of ${parent.value} is empty, so ${value} is not in the tree.`
+        : `The tree is empty, so ${value} is not in it.`,
+    actions: settle,
+  });
+  return steps;
+};
+
+// Floor and predecessor look for the largest value below the query, ceiling and successor for
+// the smallest above it; floor and ceiling also accept the value itself. Every node on the
+// right side of the query is a candidate, and a closer one can only be further in.
+type BoundKind = 'floor' | 'ceiling' | 'successor' | 'predecessor';
+
+const boundSteps = (root: TreeNode | null, value: number, kind: BoundKind): Step[] => {
+  const steps: Step[] = [];
+  const below = kind === 'floor' || kind === 'predecessor';
+  const inclusive = kind === 'floor' || kind === 'ceiling';
+  let best: TreeNode | null = null;
+
+  const { node, parent, side, settle } = descend(root, steps, node => {
+    const comparison = `${value} ${symbol(value, node.value)} ${node.value}`;
+    if (inclusive && node.value === value) {
+      return {
+        go: null,
+        narration: `Compare ${value} with ${node.value}: they are equal, so the ${kind} of ${value} is ${value} itself.`,
+        note: `${comparison}: ${kind}`,
+        status: 'path',
+        actions: best ? [markNode(id(best), 'visited')] : [],
+      };
+    }
+    const isCandidate = below ? node.value < value : node.value > value;
+    const go: Side = isCandidate === below ? 'right' : 'left';
+    if (!isCandidate) {
+      return {
+        go,
+        narration: `Compare ${value} with ${node.value}: ${comparison}, so the ${kind} can only be to the ${go}: go ${go}.`,
+        note: `${comparison}: go ${go}`,
+      };
+    }
+    const replaced = best;
+    best = node;
+    return {
+      go,
+      narration: `Compare ${value} with ${node.value}: ${comparison}, so ${node.value} is the best ${kind} so far. A closer one can only be to the ${go}: go ${go}.`,
+      note: `${comparison}: go ${go}`,
+      status: 'path',
+      actions: [...(replaced ? [markNode(id(replaced), 'visited')] : []), setMetric('Best so far', node.value)],
+    };
+  });
+
+  const answer = node ?? best;
+  const ending = node
+    ? ''
+    : parent
+      ? `The ${side} child of ${parent.value} is empty, so the search ends. `
+      : 'The tree is empty. ';
+  steps.push({
+    narration: answer
+      ? `${ending}The ${kind} of ${value} is ${answer.value}.`
+      : `${ending}No value in the tree is ${inclusive ? 'at or ' : ''}${below ? 'below' : 'above'} ${value}, so it has no ${kind}.`,
+    actions: [...settle, ...(answer ? [markNode(id(answer), 'path')] : [])],
+  });
+  return steps;
+};
+
+// In-order walk that skips every subtree lying entirely outside [lo, hi], so the matches come out sorted
+const rangeSteps = (root: TreeNode | null, lo: number, hi: number): Step[] => {
+  const steps: Step[] = [];
+  const found: number[] = [];
+  let visited = 0;
+
+  const visit = (node: TreeNode, parent: TreeNode | null) => {
+    visited++;
+    const inRange = lo <= node.value && node.value <= hi;
+    const left = lo < node.value && node.left;
+    const right = node.value < hi && node.right;
+    const check = (side: Side, open: boolean, comparison: string) => {
+      if (!node[side]) return `there is no ${side} subtree`;
+      return open
+        ? `${comparison}, so the ${side} subtree may hold values in range`
+        : `${comparison}, so the ${side} subtree lies outside the range and is skipped`;
+    };
+    const checks = [
+      check('left', lo < node.value, `${lo} ${symbol(lo, node.value)} ${node.value}`),
+      check('right', node.value < hi, `${node.value} ${symbol(node.value, hi)} ${hi}`),
+    ];
+    steps.push({
+      narration: `${node.value} is ${inRange ? 'in' : 'outside'} [${lo}, ${hi}]. ${checks.join('; ')}.`,
+      actions: [
+        ...(parent ? [markEdge(id(node), 'selected')] : []),
+        // Only a node in range waits for its left subtree before being reported
+        markNode(id(node), inRange ? 'current' : 'visited'),
+        labelNode(id(node), inRange ? `${lo} ≤ ${node.value} ≤ ${hi}` : `${node.value} ${node.value < lo ? `< ${lo}: go right` : `> ${hi}: go left`}`),
+        setMetric('Nodes visited', visited),
+      ],
+    });
+
+    if (left) visit(left, node);
+    if (inRange) {
+      found.push(node.value);
+      steps.push({
+        narration: `${left ? `Back at ${node.value} after its left subtree. ` : ''}Report ${node.value}.`,
+        actions: [markNode(id(node), 'path'), setList('In range', found.map(String))],
+      });
+    }
+    if (right) visit(right, node);
+  };
+
+  steps.push({
+    narration: `Collecting the values in [${lo}, ${hi}] in sorted order, skipping subtrees that lie outside the range.`,
+    actions: [setList('In range', [])],
+  });
+  if (root) visit(root, null);
+  steps.push({
+    narration: found.length > 0
+      ? `Done: ${found.length} value${found.length === 1 ? '' : 's'} in [${lo}, ${hi}], found by visiting ${visited} node${visited === 1 ? '' : 's'}.`
+      : `Done: no value lies in [${lo}, ${hi}].`,
+    actions: [],
+  });
+  return steps;
+};
+
+export const queryBSTSteps = (root: TreeNode | null, query: BSTQuery): Step[] => {
+  switch (query.kind) {
+    case 'search':
+      return searchSteps(root, query.value);
+    case 'min':
+      return extremeSteps(root, 'left');
+    case 'max':
+      return extremeSteps(root, 'right');
+    case 'range':
+      return rangeSteps(root, query.lo, query.hi);
+    default:
+      return boundSteps(root, query.value, query.kind);
+  }
+};
@@ -0,0 +1,71 @@
+// Shared types for the step-trace engine. Every algorithm is a pure function
+// that returns a list of steps; visualizers only know how to draw a frame.
+
+export type NodeStatus = 'idle' | 'queued' | 'current' | 'visited' | 'path' | 'conflict';
+
+export type EdgeStatus = 'idle' | 'considered' | 'selected' | 'rejected' | 'path' | 'conflict';
+
+// Groups partition the graph (components, color classes); visualizers give each its own color
+export interface NodeMark {
+  status: NodeStatus;
+  label?: string;
+  group?: number;
+}
+
+export interface EdgeMark {
+  status: EdgeStatus;
+  label?: string;
+  group?: number;
+  // Units of flow on the edge; its capacity is the edge weight
+  flow?: number;
+}
+
+export type StepAction =
+  | { type: 'node'; id: string; status: NodeStatus }
+  | { type: 'node-label'; id: string; label: string }
+  | { type: 'node-group'; id: string; group: number }
+  | { type: 'edge'; id: string; status: EdgeStatus }
+  | { type: 'edge-label'; id: string; label: string }
+  | { type: 'edge-group'; id: string; group: number }
+  | { type: 'edge-flow'; id: string; flow: number }
+  | { type: 'list'; name: string; items: string[] }
+  | { type: 'metric'; name: string; value: number | string }
+  | { type: 'table'; table: TraceTable }
+  // Replaces one row of the current table and highlights it
+  | { type: 'table-row'; key: string; cells: string[] }
+  | { type: 'matrix'; matrix: TraceMatrix }
+  | { type: 'transpose'; transposed: boolean };
+
+// Side table such as a distance/predecessor table, one row per node
+export interface TraceTable {
+  columns: string[];
+  rows: { key: string; cells: string[] }[];
+  highlight?: string[];
+}
+
+// Node-by-node matrix such as all-pairs distances; cells[i][j] is row labels[i], column labels[j]
+export interface TraceMatrix {
+  labels: string[];
+  cells: string[][];
+  highlight?: [number, number][];
+  // Row and column that the current iteration pivots on, e.g. k in Floyd-Warshall
+  pivot?: number;
+}
+
+export interface Step {
+  narration: string;
+  actions: StepAction[];
+}
+
+// Accumulated visual state after applying a prefix of the steps
+export interface Frame {
+  nodes: Record<string, NodeMark>;
+  edges: Record<string, EdgeMark>;
+  lists: Record<string, string[]>;
+  metrics: Record<string, number | string>;
+  table: TraceTable | null;
+  matrix: TraceMatrix | null;
+  // Edges are drawn reversed, e.g. during Kosaraju's second pass
+  transposed: boolean;
+  narration: string;
+}
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import type { Graph, Neighbor } from '../algorithms/graph';
+import type { Frame } from '../algorithms/types';
+
+type AdjacencyView = 'list' | 'matrix';
+
+interface AdjacencyPanelProps {
+  graph: Graph;
+  frame: Frame | null;
+  // A blank value removes the edges between the pair; a number adds the edge or reweights it
+  onSetEdge: (source: string, target: string, value: string) => void;
+}
+
+// One cell per node pair stops being readable, or fast, well before the canvas gives up
+const MATRIX_NODE_LIMIT = 40;
+
+// Outgoing neighbors of every node in one pass, in the same order getNeighbors gives
+const adjacencyOf = (graph: Graph) => {
+  const adjacency = new Map<string, Neighbor[]>(graph.nodes.map(n => [n, []]));
+  for (const edge of graph.edges) {
+    adjacency.get(edge.source)?.push({ node: edge.target, edge });
+    if (!graph.directed && edge.source !== edge.target) adjacency.get(edge.target)?.push({ node: edge.source, edge });
+  }
+  return adjacency;
+};
+
+// Adjacency list or matrix of the graph being edited. The rows of the nodes an algorithm is
+// expanding are highlighted along with the edges it has touched, and matrix cells are editable.
+const AdjacencyPanel: React.FC<AdjacencyPanelProps> = ({ graph, frame, onSetEdge }) => {
+  const [view, setView] = useState<AdjacencyView>('list');
+  const [editing, setEditing] = useState<{ source: string; target: string; value: string } | null>(null);
+  const adjacency = useMemo(() => adjacencyOf(graph), [graph]);
+
+  const isScanned = (node: string) => frame?.nodes[node]?.status === 'current';
+  const isTouched = ({ edge }: Neighbor) => (frame?.edges[edge.id]?.status ?? 'idle') !== 'idle';
+  const between = (source: string, target: string) => adjacency.get(source)!.filter(nb => nb.node === target);
+
+  const cellText = (edges: Neighbor[]) => {
+    if (edges.length === 0) return '0';
+    return graph.weighted ? edges.map(nb => nb.edge.weight).join(',') : String(edges.length);
+  };
+
+  // Unweighted cells toggle; weighted ones open a text box
+  const clickCell = (source: string, target: string) => {
+    const edges = between(source, target);
+    if (!graph.weighted) {
+      onSetEdge(source, target, edges.length > 0 ? '' : '1');
+    } else {
+      setEditing({ source, target, value: edges.length > 0 ? String(edges[0].edge.weight) : '' });
+    }
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    setEditing(null);
+    const current = between(editing.source, editing.target);
+    const unchanged = current.length > 0 ? String(current[0].edge.weight) : '';
+    if (editing.value.trim() !== unchanged) onSetEdge(editing.source, editing.target, editing.value.trim());
+  };
+
+  const rowClass = (node: string) => (isScanned(node) ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'bg-white dark:bg-gray-800');
+  const arrow = graph.directed ? '→' : '—';
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-xs rounded-md ${active ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`;
+
+  return (
+    <div className="lg:w-80">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Adjacency {view === 'list' ? 'list' : 'matrix'}
+        </h4>
+        <div className="flex gap-1">
+          <button onClick={() => setView('list')} className={tabClass(view === 'list')}>List</button>
+          <button onClick={() => setView('matrix')} className={tabClass(view === 'matrix')}>Matrix</button>
+        </div>
+      </div>
+
+      {graph.nodes.length === 0 ? (
+        <div className="text-xs text-gray-500 dark:text-gray-400">Add nodes to see their neighbors here.</div>
+      ) : view === 'list' ? (
+        <div className="max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded text-xs">
+          {graph.nodes.map(node => (
+            <div key={node} className={`flex flex-wrap items-center gap-1 px-2 py-1 transition-colors ${rowClass(node)}`}>
+              <span className="font-medium text-gray-800 dark:text-gray-200 mr-1">{node} {arrow}</span>
+              {adjacency.get(node)!.length === 0 && <span className="text-gray-400">none</span>}
+              {adjacency.get(node)!.map(nb => (
+                <span
+                  key={`${nb.edge.id}-${nb.node}`}
+                  className={`px-1.5 py-0.5 rounded ${isScanned(node) && isTouched(nb)
+                    ? 'bg-orange-200 text-orange-900 dark:bg-orange-800/60 dark:text-orange-100'
+                    : 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200'}`}
+                >
+                  {nb.node}{graph.weighted && <span className="opacity-70"> ({nb.edge.weight})</span>}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : graph.nodes.length > MATRIX_NODE_LIMIT ? (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          The matrix is shown for up to {MATRIX_NODE_LIMIT} nodes; this graph has {graph.nodes.length}. Use the list instead.
+        </div>
+      ) : (
+        <>
+          <div className="max-h-96 overflow-auto">
+            <table className="text-xs text-center border border-gray-200 dark:border-gray-700">
+              <thead className="bg-gray-100 dark:bg-gray-900">
+                <tr>
+                  <th className="px-2 py-1 text-gray-500 dark:text-gray-400 font-normal">{graph.directed ? 'from\\to' : ''}</th>
+                  {graph.nodes.map(node => (
+                    <th key={node} className="px-2 py-1 font-medium text-gray-700 dark:text-gray-300">{node}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {graph.nodes.map(source => (
+                  <tr key={source} className={`transition-colors ${rowClass(source)}`}>
+                    <th className="px-2 py-1 font-medium bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300">{source}</th>
+                    {graph.nodes.map(target => {
+                      const edges = between(source, target);
+                      const isEditing = editing?.source === source && editing.target === target;
+                      return (
+                        <td
+                          key={target}
+                          onClick={isEditing ? undefined : () => clickCell(source, target)}
+                          className={`px-2 py-1 tabular-nums cursor-pointer hover:ring-1 hover:ring-indigo-400 ${
+                            isScanned(source) && edges.some(isTouched) ? 'bg-orange-200 dark:bg-orange-800/60 font-bold' : ''
+                          } ${edges.length > 0 ? 'text-gray-800 dark:text-gray-200' : 'text-gray-300 dark:text-gray-600'}`}
+                        >
+                          {isEditing ? (
+                            <input
+                              autoFocus
+                              type="number"
+                              value={editing.value}
+                              onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                              onBlur={commitEdit}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitEdit();
+                                if (e.key === 'Escape') setEditing(null);
+                              }}
+                              className="w-12 px-1 border border-indigo-400 rounded text-center text-gray-800"
+                            />
+                          ) : cellText(edges)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {graph.weighted
+              ? 'Click a cell to set its weight; clear it to remove the edge.'
+              : 'Click a cell to add or remove the edge.'}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdjacencyPanel;
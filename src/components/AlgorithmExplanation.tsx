@@ -11,19 +11,131 @@ const AlgorithmExplanation: React.FC<AlgorithmExplanationProps> = ({ algorithm,
     switch (type) {
       case 'graph':
         return {
-          'BFS': {
+          'bfs': {
             title: 'Breadth-First Search (BFS)',
             description: 'Explores nodes level by level, visiting all neighbors before moving deeper.',
             timeComplexity: 'O(V + E)',
             spaceComplexity: 'O(V)',
             useCase: 'Finding shortest path in unweighted graphs, level-order traversal'
           },
-          'DFS': {
+          'dfs': {
             title: 'Depth-First Search (DFS)',
             description: 'Explores as far as possible along each branch before backtracking.',
             timeComplexity: 'O(V + E)',
             spaceComplexity: 'O(V)',
             useCase: 'Topological sorting, detecting cycles, pathfinding'
+          },
+          'bfs-components': {
+            title: 'Connected Components (BFS)',
+            description: 'Runs BFS from the first node, then restarts from the next undiscovered node each time the queue empties. Each restart finds one component.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Counting islands, network connectivity, clustering'
+          },
+          'bfs-path': {
+            title: 'Shortest Path (BFS)',
+            description: 'BFS discovers nodes level by level and records the parent of each one. Following parents back from the target gives a path with the fewest edges.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Fewest hops in unweighted networks, maze solving, degrees of separation'
+          },
+          'dijkstra': {
+            title: "Dijkstra's Algorithm",
+            description: 'Repeatedly extracts the closest unsettled node from a priority queue and relaxes its outgoing edges.',
+            timeComplexity: 'O((V + E) log V)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Shortest paths with non-negative weights, routing, navigation'
+          },
+          'bellman-ford': {
+            title: 'Bellman-Ford Algorithm',
+            description: 'Relaxes every edge V-1 times, then runs one more pass to detect negative cycles.',
+            timeComplexity: 'O(V · E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Negative edge weights, arbitrage detection, distance-vector routing'
+          },
+          'floyd-warshall': {
+            title: 'Floyd-Warshall Algorithm',
+            description: 'Dynamic programming over a distance matrix: for each node k in turn, every pair i, j checks whether going through k is shorter.',
+            timeComplexity: 'O(V³)',
+            spaceComplexity: 'O(V²)',
+            useCase: 'All-pairs distances in dense graphs, transitive closure, routing tables'
+          },
+          'kahn': {
+            title: "Topological Sort (Kahn's Algorithm)",
+            description: 'Repeatedly removes a node with no incoming edges and deletes its outgoing edges. Leftover nodes mean the graph has a cycle.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Task scheduling, build systems, course prerequisites'
+          },
+          'topo-dfs': {
+            title: 'Topological Sort (DFS)',
+            description: 'Runs DFS over every node and lists nodes by decreasing finish time. An edge back to a node still on the stack reveals a cycle.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Dependency resolution, cycle detection, ordering DAG computations'
+          },
+          'tarjan': {
+            title: "Tarjan's SCC Algorithm",
+            description: 'A single DFS that tracks discovery indices, low-links and an explicit stack. A node whose low-link equals its own index is the root of a component and pops it off the stack.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Finding cycles of mutual dependency, 2-SAT, simplifying graphs to their condensation'
+          },
+          'kosaraju': {
+            title: "Kosaraju's SCC Algorithm",
+            description: 'Runs DFS to record finishing order, then runs DFS on the transposed graph in decreasing finish time. Each tree of the second pass is one component.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V + E)',
+            useCase: 'Strongly connected components, web graph and social network analysis'
+          },
+          'bridges': {
+            title: 'Bridges and Articulation Points',
+            description: 'One DFS records each node\'s discovery time and low value, the earliest node its subtree reaches through a back edge. A tree edge whose child cannot reach above its parent is a bridge.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Finding single points of failure in networks, road systems and power grids'
+          },
+          'max-flow': {
+            title: 'Maximum Flow (Edmonds-Karp)',
+            description: 'Ford-Fulkerson with BFS: repeatedly pushes flow along the shortest path with spare capacity in the residual graph. When no path is left, the reachable nodes mark a minimum cut.',
+            timeComplexity: 'O(V · E²)',
+            spaceComplexity: 'O(V + E)',
+            useCase: 'Network capacity, bipartite matching, scheduling and image segmentation'
+          },
+          'bipartite': {
+            title: 'Bipartite Check',
+            description: 'BFS gives every newly reached node the opposite color of its parent. An edge between two nodes of the same color closes an odd cycle, which proves the graph is not bipartite.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Matching problems, two-team scheduling, detecting odd cycles'
+          },
+          'greedy-coloring': {
+            title: 'Greedy Graph Coloring',
+            description: 'Visits nodes in insertion order and gives each the smallest color not used by its neighbors.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Register allocation, exam timetabling, frequency assignment'
+          },
+          'welsh-powell': {
+            title: 'Welsh-Powell Coloring',
+            description: 'Greedy coloring that visits nodes by decreasing degree, so the most constrained nodes pick first.',
+            timeComplexity: 'O(V log V + E)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Scheduling with conflicts, map coloring, wireless channel assignment'
+          },
+          'matching': {
+            title: 'Bipartite Matching (Hopcroft-Karp)',
+            description: 'Alternates a BFS that layers the graph from free left nodes with a DFS that flips a maximal set of shortest, vertex-disjoint augmenting paths, until no augmenting path is left.',
+            timeComplexity: 'O(E √V)',
+            spaceComplexity: 'O(V)',
+            useCase: 'Job assignment, student-project allocation, pairing tasks with workers'
+          },
+          'euler': {
+            title: "Eulerian Path (Hierholzer's Algorithm)",
+            description: 'Checks the degree conditions and connectivity, then walks unused edges until stuck, backing up to splice in detours until every edge is used exactly once.',
+            timeComplexity: 'O(V + E)',
+            spaceComplexity: 'O(E)',
+            useCase: 'Seven Bridges of Königsberg, route inspection, DNA fragment assembly'
           }
         };
       case 'tree':
@@ -48,6 +160,27 @@ const AlgorithmExplanation: React.FC<AlgorithmExplanationProps> = ({ algorithm,
             timeComplexity: 'O(n)',
             spaceComplexity: 'O(h)',
             useCase: 'Deleting tree, postfix expression evaluation'
+          },
+          'bst-insert': {
+            title: 'BST Insertion',
+            description: 'Compares the new value with each node from the root down, going left when it is smaller and right when it is larger, and attaches it at the empty child where the walk ends.',
+            timeComplexity: 'O(h)',
+            spaceComplexity: 'O(1)',
+            useCase: 'Building sorted sets and maps incrementally, symbol tables'
+          },
+          'bst-query': {
+            title: 'BST Queries',
+            description: 'Search, minimum, maximum, floor, ceiling, successor and predecessor each follow a single root-to-leaf path, keeping the best candidate seen so far. A range query walks in order but skips subtrees that lie outside [lo, hi].',
+            timeComplexity: 'O(h), plus O(k) for k values in a range',
+            spaceComplexity: 'O(1), or O(h) for a range',
+            useCase: 'Ordered lookups, nearest-value queries, range scans in database indexes'
+          },
+          'bst-delete': {
+            title: 'BST Deletion',
+            description: 'Searches for the value, then cuts off a leaf, splices out a node with one child, or swaps a node with two children with its in-order successor or predecessor and deletes that node instead.',
+            timeComplexity: 'O(h)',
+            spaceComplexity: 'O(1)',
+            useCase: 'Maintaining sorted sets and maps, symbol tables, database indexes'
           }
         };
       case 'mst':
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { BST_QUERIES, type BSTQuery, type BSTQueryKind } from '../algorithms/tree';
+
+interface BSTQueryPanelProps {
+  onRun: (query: BSTQuery) => void;
+  disabled?: boolean;
+}
+
+// The query the boxes describe, or null while a number is missing
+const parseQuery = (kind: BSTQueryKind, value: string, bound: string): BSTQuery | null => {
+  const first = parseInt(value, 10);
+  const second = parseInt(bound, 10);
+  switch (kind) {
+    case 'min':
+    case 'max':
+      return { kind };
+    case 'range':
+      if (Number.isNaN(first) || Number.isNaN(second)) return null;
+      return { kind, lo: Math.min(first, second), hi: Math.max(first, second) };
+    default:
+      return Number.isNaN(first) ? null : { kind, value: first };
+  }
+};
+
+// Query picker with as many number boxes as the query takes; lo and hi may be given in either order
+const BSTQueryPanel: React.FC<BSTQueryPanelProps> = ({ onRun, disabled = false }) => {
+  const [kind, setKind] = useState<BSTQueryKind>('search');
+  const [value, setValue] = useState('');
+  const [bound, setBound] = useState('');
+  const { operands } = BST_QUERIES.find(q => q.id === kind)!;
+
+  const query = parseQuery(kind, value, bound);
+
+  const inputClass = 'w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={kind}
+        onChange={(e) => setKind(e.target.value as BSTQueryKind)}
+        disabled={disabled}
+        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+      >
+        {BST_QUERIES.map(q => (
+          <option key={q.id} value={q.id}>{q.label}</option>
+        ))}
+      </select>
+      {operands >= 1 && (
+        <input
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && query && onRun(query)}
+          placeholder={operands === 2 ? 'lo' : 'Value'}
+          disabled={disabled}
+          className={inputClass}
+        />
+      )}
+      {operands === 2 && (
+        <input
+          type="number"
+          value={bound}
+          onChange={(e) => setBound(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && query && onRun(query)}
+          placeholder="hi"
+          disabled={disabled}
+          className={inputClass}
+        />
+      )}
+      <button
+        onClick={() => query && onRun(query)}
+        disabled={disabled || !query}
+        className="px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+      >
+        Run Query
+      </button>
+    </div>
+  );
+};
+
+export default BSTQueryPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import type { Condensation } from '../algorithms/scc';
+
+interface CondensationViewProps {
+  condensation: Condensation;
+  colorOf: (group: number) => string;
+}
+
+const RADIUS = 26;
+const COLUMN_GAP = 140;
+const ROW_GAP = 80;
+
+// Column = longest chain of components leading into it, so every edge points right
+const computeLevels = ({ components, edges }: Condensation): number[] => {
+  const levels = components.map(() => 0);
+  for (let pass = 0; pass < components.length; pass++) {
+    for (const [from, to] of edges) {
+      levels[to] = Math.max(levels[to], levels[from] + 1);
+    }
+  }
+  return levels;
+};
+
+// The DAG obtained by collapsing every strongly connected component into one node
+const CondensationView: React.FC<CondensationViewProps> = ({ condensation, colorOf }) => {
+  const levels = computeLevels(condensation);
+  const rowInLevel = new Map<number, number>();
+  const positions = condensation.components.map((_, i) => {
+    const row = rowInLevel.get(levels[i]) ?? 0;
+    rowInLevel.set(levels[i], row + 1);
+    return { x: 50 + levels[i] * COLUMN_GAP, y: 50 + row * ROW_GAP };
+  });
+
+  const width = Math.max(...positions.map(p => p.x), 0) + 100;
+  const height = Math.max(...positions.map(p => p.y), 0) + 70;
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Condensation DAG ({condensation.components.length} components, {condensation.edges.length} edges)
+      </h4>
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+          <defs>
+            <marker
+              id="condensation-arrow"
+              markerWidth="10"
+              markerHeight="7"
+              refX="10"
+              refY="3.5"
+              orient="auto"
+            >
+              <polygon points="0 0, 10 3.5, 0 7" className="fill-gray-500" />
+            </marker>
+          </defs>
+
+          {condensation.edges.map(([from, to]) => {
+            const a = positions[from];
+            const b = positions[to];
+            const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            const ux = (b.x - a.x) / length;
+            const uy = (b.y - a.y) / length;
+            return (
+              <line
+                key={`${from}-${to}`}
+                x1={a.x + ux * RADIUS}
+                y1={a.y + uy * RADIUS}
+                x2={b.x - ux * RADIUS}
+                y2={b.y - uy * RADIUS}
+                className="stroke-gray-500 stroke-2"
+                markerEnd="url(#condensation-arrow)"
+              />
+            );
+          })}
+
+          {condensation.components.map((members, i) => (
+            <g key={i}>
+              <circle cx={positions[i].x} cy={positions[i].y} r={RADIUS} fill={colorOf(i)} />
+              <text
+                x={positions[i].x}
+                y={positions[i].y + 4}
+                textAnchor="middle"
+                className="fill-white text-xs font-bold"
+              >
+                {`C${i + 1}`}
+              </text>
+              <text
+                x={positions[i].x}
+                y={positions[i].y + RADIUS + 14}
+                textAnchor="middle"
+                className="fill-gray-700 dark:fill-gray-300 text-xs"
+              >
+                {`{${members.join(', ')}}`}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default CondensationView;
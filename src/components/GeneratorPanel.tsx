@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { GraphData } from '../algorithms/formats';
+import {
+  generateGraph,
+  GRAPH_GENERATORS,
+  MAX_GENERATED_NODES,
+  randomSeed,
+  type GeneratorOptions,
+} from '../algorithms/generators';
+
+interface GeneratorPanelProps {
+  onGenerate: (data: GraphData) => void;
+  // The MST tab only takes undirected graphs, always weighted
+  undirectedOnly?: boolean;
+  alwaysWeighted?: boolean;
+  initialPreset?: string;
+  disabled?: boolean;
+}
+
+// Preset, size, edge probability and seed for a random graph; the seed makes it reproducible
+const GeneratorPanel: React.FC<GeneratorPanelProps> = ({
+  onGenerate,
+  undirectedOnly = false,
+  alwaysWeighted = false,
+  initialPreset = 'gnp',
+  disabled = false,
+}) => {
+  const presets = GRAPH_GENERATORS.filter(g => !undirectedOnly || !g.directed);
+  const [presetId, setPresetId] = useState(initialPreset);
+  const [options, setOptions] = useState<GeneratorOptions>({
+    size: 8,
+    probability: 0.3,
+    weighted: alwaysWeighted,
+    seed: randomSeed(),
+  });
+  const preset = presets.find(g => g.id === presetId) ?? presets[0];
+
+  const generate = (seed = options.seed) => {
+    setOptions({ ...options, seed });
+    onGenerate(generateGraph(preset, { ...options, seed, weighted: alwaysWeighted || options.weighted }));
+  };
+
+  const inputClass = 'px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+  const labelClass = 'flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={preset.id}
+        onChange={(e) => setPresetId(e.target.value)}
+        disabled={disabled}
+        className={inputClass}
+      >
+        {presets.map(g => (
+          <option key={g.id} value={g.id}>{g.label}</option>
+        ))}
+      </select>
+      <label className={labelClass}>
+        n
+        <input
+          type="number"
+          min={preset.minSize}
+          max={MAX_GENERATED_NODES}
+          value={options.size}
+          onChange={(e) => setOptions({ ...options, size: Number(e.target.value) })}
+          disabled={disabled}
+          className={`w-16 ${inputClass}`}
+        />
+      </label>
+      {preset.usesProbability && (
+        <label className={labelClass}>
+          p
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={options.probability}
+            onChange={(e) => setOptions({ ...options, probability: Number(e.target.value) })}
+            disabled={disabled}
+            className={`w-20 ${inputClass}`}
+          />
+        </label>
+      )}
+      {!alwaysWeighted && !preset.alwaysWeighted && (
+        <label className={labelClass}>
+          <input
+            type="checkbox"
+            checked={options.weighted}
+            onChange={(e) => setOptions({ ...options, weighted: e.target.checked })}
+            disabled={disabled}
+          />
+          Weighted
+        </label>
+      )}
+      <label className={labelClass}>
+        Seed
+        <input
+          type="number"
+          value={options.seed}
+          onChange={(e) => setOptions({ ...options, seed: Number(e.target.value) })}
+          disabled={disabled}
+          className={`w-28 ${inputClass}`}
+        />
+      </label>
+      <button
+        onClick={() => generate()}
+        disabled={disabled}
+        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+      >
+        Generate
+      </button>
+      <button
+        onClick={() => generate(randomSeed())}
+        disabled={disabled}
+        title="Generate with a fresh seed"
+        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+      >
+        New seed
+      </button>
+    </div>
+  );
+};
+
+export default GeneratorPanel;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { exportWarnings, GRAPH_FORMATS, parseGraph, serializeGraph, type FormatError, type GraphData, type GraphFormat } from '../algorithms/formats';
+
+interface GraphIODialogProps {
+  // The graph currently on the canvas, for exporting
+  graph: GraphData;
+  onImport: (data: GraphData) => void;
+  onClose: () => void;
+}
+
+const FILE_EXTENSIONS: Record<GraphFormat, string> = {
+  'edge-list': 'txt',
+  matrix: 'txt',
+  json: 'json',
+  dot: 'dot',
+};
+
+// Paste a graph in one of the text formats, or export the current graph in any of them
+const GraphIODialog: React.FC<GraphIODialogProps> = ({ graph, onImport, onClose }) => {
+  const [format, setFormat] = useState<GraphFormat>('edge-list');
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<FormatError[]>([]);
+  // Edges the last export had to leave out
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const { example, hint } = GRAPH_FORMATS.find(f => f.id === format)!;
+
+  const handleImport = () => {
+    const result = parseGraph(text, format);
+    setErrors(result.errors);
+    setWarnings([]);
+    if (result.errors.length === 0) onImport(result.data);
+  };
+
+  const handleExport = () => {
+    setErrors([]);
+    setWarnings(exportWarnings(graph, format));
+    setText(serializeGraph(graph, format));
+  };
+
+  const handleDownload = () => {
+    setErrors([]);
+    setWarnings(exportWarnings(graph, format));
+    const url = URL.createObjectURL(new Blob([serializeGraph(graph, format)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `graph.${FILE_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Import / Export Graph</h3>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {GRAPH_FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => {
+                setFormat(f.id);
+                setErrors([]);
+                setWarnings([]);
+              }}
+              className={`px-3 py-1 rounded-md text-sm ${
+                format === f.id
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={example}
+          spellCheck={false}
+          rows={12}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md font-mono text-sm dark:bg-gray-700 dark:text-white"
+        />
+
+        {errors.length > 0 && (
+          <ul className="mt-2 max-h-32 overflow-y-auto bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded text-sm">
+            {errors.map((error, i) => (
+              <li key={i}>{error.line !== undefined ? `Line ${error.line}: ` : ''}{error.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {warnings.length > 0 && (
+          <ul className="mt-2 bg-amber-100 border border-amber-400 text-amber-800 px-4 py-2 rounded text-sm">
+            {warnings.map((warning, i) => (
+              <li key={i}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-2 mt-4">
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+            >
+              Show current graph
+            </button>
+            <button
+              onClick={handleDownload}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+            >
+              Download
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphIODialog;
@@ -1,78 +1,643 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import { findGraphAlgorithm, GRAPH_ALGORITHMS } from '../algorithms/catalog';
+import { defaultNodeName, endpointId, findEdgeConflicts, isSameConnection, type Graph, type GraphOptions } from '../algorithms/graph';
+import { computeLayout, twoColumnLayout, type LayoutBox, type LayoutKind, type Point } from '../algorithms/layout';
+import { resolveSides, type Sides } from '../algorithms/matching';
+import { importOptions, type GraphData } from '../algorithms/formats';
+import { condensation } from '../algorithms/scc';
+import { applyStep } from '../algorithms/trace';
+import type { EdgeMark, EdgeStatus, Frame, NodeMark, NodeStatus } from '../algorithms/types';
+import { useHistory, useUndoShortcuts } from '../hooks/useHistory';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useZoom } from '../hooks/useZoom';
+import AdjacencyPanel from './AdjacencyPanel';
+import CondensationView from './CondensationView';
+import GeneratorPanel from './GeneratorPanel';
+import GraphIODialog from './GraphIODialog';
+import LayoutPanel from './LayoutPanel';
+import MatrixView from './MatrixView';
+import PlaybackBar from './PlaybackBar';
+import TracePanel from './TracePanel';
+import ZoomControls from './ZoomControls';
 
 interface Node extends d3.SimulationNodeDatum {
   id: string;
   visited?: boolean;
+  // Where the user dropped the node; it stays there whatever the layout
+  pin?: Point;
 }
 
 interface Link {
-  source: string;
-  target: string;
+  source: string | Node;
+  target: string | Node;
   weight?: number;
   visited?: boolean;
 }
 
+interface PaintOptions {
+  accent: string;
+  directed: boolean;
+  // Flow edges show residual capacities instead of flow/capacity
+  residual: boolean;
+}
+
+// What is selected on the canvas; edges are addressed by their index in links
+type Selection = { kind: 'node'; id: string } | { kind: 'edge'; index: number };
+
+// Inline text box over the canvas for renaming a node or changing an edge weight
+interface InlineEdit {
+  target: Selection;
+  value: string;
+  // Position relative to the canvas container, in CSS pixels
+  left: number;
+  top: number;
+}
+
+// Canvas gestures call back into the component through a ref, so they always see the latest state
+interface CanvasActions {
+  addNodeAt: (x: number, y: number) => void;
+  connect: (source: string, target: string) => void;
+  select: (selection: Selection | null) => void;
+  edit: (target: Selection, value: string, x: number, y: number) => void;
+}
+
+// Everything undo/redo restores: the structure and the graph type
+interface GraphSnapshot {
+  nodes: Node[];
+  links: Link[];
+  options: GraphOptions;
+}
+
 interface GraphVisualizerProps {
   onAlgorithmChange?: (algorithm: string) => void;
 }
 
-type GraphType = 'undirected' | 'directed' | 'weighted';
+const DEFAULT_OPTIONS: GraphOptions = {
+  directed: false,
+  weighted: false,
+  allowSelfLoops: false,
+  allowMultiEdges: false,
+};
+
+const OPTION_LABELS: Record<keyof GraphOptions, string> = {
+  directed: 'Directed',
+  weighted: 'Weighted',
+  allowSelfLoops: 'Allow self-loops',
+  allowMultiEdges: 'Allow parallel edges',
+};
+
+const WIDTH = 800;
+const HEIGHT = 600;
+// The bottom strip holds the run buttons
+const LAYOUT_BOX: LayoutBox = { width: WIDTH, height: HEIGHT - 80, margin: 40 };
+// Beyond either size the graph is drawn on a canvas instead of one SVG element per shape
+const CANVAS_NODE_LIMIT = 300;
+const CANVAS_LINK_LIMIT = 1000;
+
+const PATH_COLOR = '#f97316';
+const CONFLICT_COLOR = '#dc2626';
+
+// One color per group (component, color class), cycling when there are more groups
+const GROUP_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#84cc16', '#f43f5e', '#14b8a6', '#a16207', '#6366f1'];
+const groupColor = (group: number) => GROUP_COLORS[group % GROUP_COLORS.length];
+
+const toGraph = (nodes: Node[], links: Link[], options: GraphOptions): Graph => ({
+  nodes: nodes.map(n => n.id),
+  edges: links.map((l, i) => ({
+    id: String(i),
+    source: endpointId(l.source),
+    target: endpointId(l.target),
+    weight: options.weighted ? l.weight ?? 1 : 1,
+  })),
+  directed: options.directed,
+  weighted: options.weighted,
+});
+
+const describeOptions = (options: GraphOptions) =>
+  `${options.directed ? 'directed' : 'undirected'}${options.weighted ? ', weighted' : ''}`;
+
+// Parallel edges fan out around the straight line; self-loops get stacked loop indices.
+// Offsets are signed against a canonical orientation so A→B and B→A land on different sides.
+const computeCurveOffsets = (links: Link[]): number[] => {
+  const groups = new Map<string, number[]>();
+  links.forEach((l, i) => {
+    const [a, b] = [endpointId(l.source), endpointId(l.target)].sort();
+    const key = `${a}\u0000${b}`;
+    groups.set(key, [...(groups.get(key) ?? []), i]);
+  });
+
+  const offsets = new Array<number>(links.length).fill(0);
+  for (const indices of groups.values()) {
+    indices.forEach((linkIndex, k) => {
+      const source = endpointId(links[linkIndex].source);
+      const target = endpointId(links[linkIndex].target);
+      if (source === target) {
+        offsets[linkIndex] = k;
+        return;
+      }
+      const spread = (k - (indices.length - 1) / 2) * 40;
+      offsets[linkIndex] = source < target ? spread : -spread;
+    });
+  }
+  return offsets;
+};
+
+// A direction into one end of a link: from (x1, y1) towards the end point (x2, y2)
+type Tangent = [number, number, number, number];
+
+// SVG path and label anchor for a link between two positioned nodes, plus the tangents
+// at both ends that the canvas renderer needs for arrowheads
+const linkGeometry = (source: Node, target: Node, offset: number, isLoop: boolean) => {
+  const sx = source.x ?? 0;
+  const sy = source.y ?? 0;
+  if (isLoop) {
+    const size = 45 + offset * 15;
+    return {
+      d: `M ${sx - 10},${sy - 18} C ${sx - size},${sy - size * 1.8} ${sx + size},${sy - size * 1.8} ${sx + 10},${sy - 18}`,
+      labelX: sx,
+      labelY: sy - 4.5 - size * 1.35,
+      start: [sx - size, sy - size * 1.8, sx - 10, sy - 18] as Tangent,
+      end: [sx + size, sy - size * 1.8, sx + 10, sy - 18] as Tangent,
+    };
+  }
+
+  const tx = target.x ?? 0;
+  const ty = target.y ?? 0;
+  if (offset === 0) {
+    return {
+      d: `M ${sx},${sy} L ${tx},${ty}`,
+      labelX: (sx + tx) / 2,
+      labelY: (sy + ty) / 2,
+      start: [tx, ty, sx, sy] as Tangent,
+      end: [sx, sy, tx, ty] as Tangent,
+    };
+  }
+
+  const length = Math.hypot(tx - sx, ty - sy) || 1;
+  const cx = (sx + tx) / 2 - ((ty - sy) / length) * offset * 2;
+  const cy = (sy + ty) / 2 + ((tx - sx) / length) * offset * 2;
+  return {
+    d: `M ${sx},${sy} Q ${cx},${cy} ${tx},${ty}`,
+    labelX: 0.25 * sx + 0.5 * cx + 0.25 * tx,
+    labelY: 0.25 * sy + 0.5 * cy + 0.25 * ty,
+    start: [cx, cy, sx, sy] as Tangent,
+    end: [cx, cy, tx, ty] as Tangent,
+  };
+};
+
+// First default name that is not taken yet
+const nextNodeId = (nodes: Node[]) => {
+  const taken = new Set(nodes.map(n => n.id));
+  for (let i = 0; ; i++) {
+    if (!taken.has(defaultNodeName(i))) return defaultNodeName(i);
+  }
+};
+
+const sameSelection = (a: Selection | null, b: Selection) =>
+  a !== null && (a.kind === 'node' ? b.kind === 'node' && a.id === b.id : b.kind === 'edge' && a.index === b.index);
+
+// Blank or invalid input defaults to 1; zero and negative weights are kept
+const parseWeight = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? 1 : parsed;
+};
+
+const nodeFill = (status: NodeStatus | undefined, accent: string) => {
+  switch (status) {
+    case 'queued':
+      return '#f59e0b';
+    case 'current':
+    case 'visited':
+      return accent;
+    case 'path':
+      return PATH_COLOR;
+    case 'conflict':
+      return CONFLICT_COLOR;
+    default:
+      return '#4f46e5';
+  }
+};
+
+const edgeStroke = (status: EdgeStatus | undefined, accent: string) => {
+  switch (status) {
+    case 'selected':
+      return accent;
+    case 'considered':
+      return '#f59e0b';
+    case 'rejected':
+      return '#ef4444';
+    case 'path':
+      return PATH_COLOR;
+    case 'conflict':
+      return CONFLICT_COLOR;
+    default:
+      return '#999';
+  }
+};
+
+const edgeWidth = (status: EdgeStatus | undefined) => {
+  switch (status) {
+    case 'path':
+    case 'conflict':
+      return 5;
+    case 'selected':
+    case 'considered':
+    case 'rejected':
+      return 3;
+    default:
+      return 2;
+  }
+};
+
+// Group colors win over statuses, except for conflicts such as an odd cycle
+const markGroup = (mark: NodeMark | EdgeMark | undefined) => (mark?.status === 'conflict' ? undefined : mark?.group);
+
+const nodeColor = (mark: NodeMark | undefined, accent: string) => {
+  const group = markGroup(mark);
+  return group !== undefined ? groupColor(group) : nodeFill(mark?.status, accent);
+};
+
+const edgeColor = (mark: EdgeMark | undefined, accent: string) => {
+  const group = markGroup(mark);
+  return group !== undefined ? groupColor(group) : edgeStroke(mark?.status, accent);
+};
+
+const edgeMarkWidth = (mark: EdgeMark | undefined) => (markGroup(mark) !== undefined ? 3 : edgeWidth(mark?.status));
+
+const nodeRadius = (mark: NodeMark | undefined) => ((mark?.status ?? 'idle') === 'idle' ? 20 : 24);
+
+// Flow edges show flow/capacity, or both residual capacities; other edges their annotation
+const edgeText = (mark: EdgeMark | undefined, d: Link, residual: boolean) => {
+  if (mark?.flow === undefined) return mark?.label ?? '';
+  const capacity = d.weight ?? 1;
+  return residual ? `${capacity - mark.flow} | ${mark.flow}` : `${mark.flow}/${capacity}`;
+};
+
+// Which ends of a directed link carry an arrowhead. A transposed frame draws every arrow
+// at the other end of its link. In the residual view an arrow marks each direction that
+// still has capacity: forward while the edge is not saturated, backward while it carries
+// flow that could be cancelled.
+const arrowEnds = (mark: EdgeMark | undefined, d: Link, transposed: boolean, residual: boolean) => {
+  if (residual && mark?.flow !== undefined) {
+    return { forward: (d.weight ?? 1) - mark.flow > 0, backward: mark.flow > 0 };
+  }
+  return { forward: !transposed, backward: transposed };
+};
+
+// Long-lived layers and simulation of the graph canvas; everything but the empty-state
+// text sits in the zoomed viewport
+interface Scene {
+  simulation: d3.Simulation<Node, Link>;
+  emptyText: d3.Selection<SVGTextElement, unknown, null, undefined>;
+  viewport: d3.Selection<SVGGElement, unknown, null, undefined>;
+  hitLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  linkLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  weightLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  edgeLabelLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  nodeLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  linkPreview: d3.Selection<SVGLineElement, unknown, null, undefined>;
+}
+
+// Paint an algorithm frame onto the current d3 selections
+const paintFrame = (
+  nodeGroup: d3.Selection<SVGGElement, Node, SVGGElement, unknown>,
+  link: d3.Selection<SVGPathElement, Link, SVGGElement, unknown>,
+  edgeLabel: d3.Selection<SVGTextElement, Link, SVGGElement, unknown>,
+  frame: Frame | null,
+  { accent, directed, residual }: PaintOptions
+) => {
+  const edgeMark = (i: number) => frame?.edges[String(i)];
+
+  nodeGroup
+    .select('circle.node-circle')
+    .transition()
+    .duration(500)
+    .attr('fill', d => nodeColor(frame?.nodes[d.id], accent))
+    .attr('r', d => nodeRadius(frame?.nodes[d.id]))
+    .attr('stroke-width', d => frame?.nodes[d.id]?.status === 'current' ? 4 : 2);
+
+  nodeGroup
+    .select<SVGTextElement>('text.node-label')
+    .text(d => frame?.nodes[d.id]?.label ?? '');
+
+  link
+    .transition()
+    .duration(500)
+    .attr('stroke', (_, i) => edgeColor(edgeMark(i), accent))
+    .attr('stroke-width', (_, i) => edgeMarkWidth(edgeMark(i)))
+    .attr('stroke-dasharray', (_, i) => edgeMark(i)?.status === 'considered' ? '6,4' : null);
+
+  edgeLabel.text((d, i) => edgeText(edgeMark(i), d, residual));
+
+  // Links outlive graph type changes, so undirected graphs clear their markers
+  const transposed = frame?.transposed ?? false;
+  const marker = (d: Link, reverse: boolean) =>
+    `url(#arrowhead${endpointId(d.source) === endpointId(d.target) ? '-loop' : ''}${reverse ? '-reverse' : ''})`;
+  link
+    .attr('marker-end', (d, i) => (directed && arrowEnds(edgeMark(i), d, transposed, residual).forward ? marker(d, false) : null))
+    .attr('marker-start', (d, i) => (directed && arrowEnds(edgeMark(i), d, transposed, residual).backward ? marker(d, true) : null));
+};
+
+// Hit testing and node gestures for graphs drawn on the canvas, which have no SVG elements
+// to catch events; points are in content coordinates
+interface CanvasHits {
+  nodeAt: (x: number, y: number) => Node | undefined;
+  pick: (x: number, y: number) => Selection | null;
+  // Opens the inline editor, as double-clicking the SVG element would
+  open: (hit: Selection) => void;
+  grab: (node: Node, point: [number, number], active: boolean, shift: boolean) => void;
+  drag: (node: Node, point: [number, number]) => void;
+  release: (node: Node, point: [number, number], active: boolean) => void;
+}
+
+// Everything the canvas renderer draws besides the graph itself
+interface CanvasPaint {
+  frame: Frame | null;
+  selection: Selection | null;
+  paint: PaintOptions;
+  weighted: boolean;
+  // Rubber band of a shift-drag, from the node to the pointer
+  preview: Tangent | null;
+}
+
+// Canvas pixels per viewBox unit and the letterbox offset, matching the SVG's default xMidYMid meet
+const fitView = (canvas: HTMLCanvasElement) => {
+  const k = Math.min(canvas.clientWidth / WIDTH, canvas.clientHeight / HEIGHT);
+  return { k, x: (canvas.clientWidth - WIDTH * k) / 2, y: (canvas.clientHeight - HEIGHT * k) / 2 };
+};
+
+// Arrowhead ending inset units before the tip of the tangent, like the SVG markers
+const traceArrow = (path: Path2D, [x1, y1, x2, y2]: Tangent, inset: number) => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const x = x2 - cos * inset;
+  const y = y2 - sin * inset;
+  path.moveTo(x, y);
+  path.lineTo(x - cos * 10 + sin * 5, y - sin * 10 - cos * 5);
+  path.lineTo(x - cos * 10 - sin * 5, y - sin * 10 + cos * 5);
+  path.closePath();
+};
+
+// The tangents hold every control point: loops are cubic curves, and a straight link is a
+// quadratic curve whose control point sits on the source
+const traceLink = (path: Path2D, { start, end }: { start: Tangent; end: Tangent }, loop: boolean) => {
+  path.moveTo(start[2], start[3]);
+  if (loop) path.bezierCurveTo(start[0], start[1], end[0], end[1], end[2], end[3]);
+  else path.quadraticCurveTo(end[0], end[1], end[2], end[3]);
+};
+
+// Draws the whole graph in one pass under the current zoom; used for graphs too large for
+// one DOM element per shape
+const drawCanvas = (
+  canvas: HTMLCanvasElement,
+  nodes: Node[],
+  links: Link[],
+  curveOffsets: number[],
+  state: CanvasPaint,
+  zoom: d3.ZoomTransform
+) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const { frame, selection, paint, weighted, preview } = state;
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  // Dashes, alpha and transform start fresh on every draw
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, width, height);
+  const view = fitView(canvas);
+  context.setTransform(view.k * ratio, 0, 0, view.k * ratio, view.x * ratio, view.y * ratio);
+  context.transform(zoom.k, 0, 0, zoom.k, zoom.x, zoom.y);
+  context.textAlign = 'center';
+
+  // Edges sharing a style go into one path, so thousands of idle edges cost a single stroke
+  const strokes = new Map<string, { color: string; width: number; dashed: boolean; path: Path2D }>();
+  const highlight = new Path2D();
+  const arrows = new Path2D();
+  const weights: [string, number, number][] = [];
+  const annotations: [string, number, number][] = [];
+  const transposed = frame?.transposed ?? false;
+  links.forEach((d, i) => {
+    const mark = frame?.edges[String(i)];
+    const loop = endpointId(d.source) === endpointId(d.target);
+    const geometry = linkGeometry(d.source as Node, d.target as Node, curveOffsets[i], loop);
+
+    const color = edgeColor(mark, paint.accent);
+    const lineWidth = edgeMarkWidth(mark);
+    const dashed = mark?.status === 'considered';
+    const key = `${color} ${lineWidth} ${dashed}`;
+    if (!strokes.has(key)) strokes.set(key, { color, width: lineWidth, dashed, path: new Path2D() });
+    traceLink(strokes.get(key)!.path, geometry, loop);
+    if (sameSelection(selection, { kind: 'edge', index: i })) traceLink(highlight, geometry, loop);
+
+    if (paint.directed) {
+      const { forward, backward } = arrowEnds(mark, d, transposed, paint.residual);
+      if (forward) traceArrow(arrows, geometry.end, loop ? 0 : 22);
+      if (backward) traceArrow(arrows, geometry.start, loop ? 0 : 22);
+    }
+    if (weighted) weights.push([String(d.weight ?? 1), geometry.labelX, geometry.labelY - 5]);
+    const text = edgeText(mark, d, paint.residual);
+    if (text) annotations.push([text, geometry.labelX, geometry.labelY + 14]);
+  });
+
+  context.globalAlpha = 0.6;
+  context.strokeStyle = '#facc15';
+  context.lineWidth = 12;
+  context.stroke(highlight);
+  for (const { color, width: lineWidth, dashed, path } of strokes.values()) {
+    context.strokeStyle = color;
+    context.lineWidth = lineWidth;
+    context.setLineDash(dashed ? [6, 4] : []);
+    context.stroke(path);
+  }
+  context.globalAlpha = 1;
+  context.setLineDash([]);
+  context.fillStyle = '#999';
+  context.fill(arrows);
+
+  context.fillStyle = '#666';
+  context.font = 'bold 12px sans-serif';
+  weights.forEach(([text, x, y]) => context.fillText(text, x, y));
+  context.fillStyle = '#6b7280';
+  context.font = 'italic 11px sans-serif';
+  annotations.forEach(([text, x, y]) => context.fillText(text, x, y));
+
+  nodes.forEach(n => {
+    const mark = frame?.nodes[n.id];
+    const x = n.x ?? 0;
+    const y = n.y ?? 0;
+    if (sameSelection(selection, { kind: 'node', id: n.id })) {
+      context.strokeStyle = '#facc15';
+      context.lineWidth = 3;
+      context.setLineDash([5, 3]);
+      context.beginPath();
+      context.arc(x, y, 30, 0, 2 * Math.PI);
+      context.stroke();
+    }
+    context.setLineDash([]);
+    context.beginPath();
+    context.arc(x, y, nodeRadius(mark), 0, 2 * Math.PI);
+    context.fillStyle = nodeColor(mark, paint.accent);
+    context.fill();
+    context.strokeStyle = '#312e81';
+    context.lineWidth = mark?.status === 'current' ? 4 : 2;
+    context.stroke();
+
+    context.fillStyle = 'white';
+    context.font = 'bold 14px sans-serif';
+    context.fillText(n.id, x, y + 5);
+    if (mark?.label) {
+      context.fillStyle = '#374151';
+      context.font = 'bold 12px sans-serif';
+      context.fillText(mark.label, x, y + 40);
+    }
+  });
+
+  if (preview) {
+    context.strokeStyle = '#4f46e5';
+    context.lineWidth = 2;
+    context.setLineDash([6, 4]);
+    context.beginPath();
+    context.moveTo(preview[0], preview[1]);
+    context.lineTo(preview[2], preview[3]);
+    context.stroke();
+  }
+  context.restore();
+};
 
 const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [links, setLinks] = useState<Link[]>([]);
-  const [isRunningBFS, setIsRunningBFS] = useState(false);
-  const [isRunningDFS, setIsRunningDFS] = useState(false);
+  const history = useHistory<GraphSnapshot>({ nodes: [], links: [], options: DEFAULT_OPTIONS });
+  const { nodes, links, options } = history.present;
+  const nodeGroupRef = useRef<d3.Selection<SVGGElement, Node, SVGGElement, unknown> | null>(null);
+  const linkRef = useRef<d3.Selection<SVGPathElement, Link, SVGGElement, unknown> | null>(null);
+  const edgeLabelRef = useRef<d3.Selection<SVGTextElement, Link, SVGGElement, unknown> | null>(null);
+  const edgeHitRef = useRef<d3.Selection<SVGPathElement, Link, SVGGElement, unknown> | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef<Scene | null>(null);
+  // Set while the graph is drawn on the canvas; redraws it with the latest paint state
+  const drawRef = useRef<(() => void) | null>(null);
+  const paintRef = useRef<CanvasPaint>({
+    frame: null,
+    selection: null,
+    paint: { accent: '#22c55e', directed: false, residual: false },
+    weighted: false,
+    preview: null,
+  });
+  const canvasActions = useRef<CanvasActions | null>(null);
+  const canvasHits = useRef<CanvasHits | null>(null);
+  const zoom = useZoom(svgRef, {
+    width: WIDTH,
+    height: HEIGHT,
+    onZoom: transform => {
+      sceneRef.current?.viewport.attr('transform', transform.toString());
+      drawRef.current?.();
+    },
+    // Nodes drawn on the canvas are dragged rather than panned
+    ignore: event => {
+      const viewport = sceneRef.current?.viewport.node();
+      if (!canvasHits.current || !viewport) return false;
+      const [x, y] = d3.pointer('touches' in event ? event.touches[0] : event, viewport);
+      return canvasHits.current.nodeAt(x, y) !== undefined;
+    },
+  });
+  const { transformRef: zoomTransform, setContent: setZoomContent } = zoom;
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [inlineEdit, setInlineEdit] = useState<InlineEdit | null>(null);
+  const [showImportExport, setShowImportExport] = useState(false);
   const [newNode, setNewNode] = useState('');
   const [newEdge, setNewEdge] = useState({ source: '', target: '', weight: '' });
-  const [graphType, setGraphType] = useState<GraphType>('undirected');
+  const [error, setError] = useState('');
   const [selectedStartNode, setSelectedStartNode] = useState('');
-  const [algorithmExplanation, setAlgorithmExplanation] = useState('');
+  const [selectedTargetNode, setSelectedTargetNode] = useState('');
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState('bfs');
+  const [algorithm, setAlgorithm] = useState<string | null>(null);
+  const [showCondensation, setShowCondensation] = useState(false);
+  const [showResidual, setShowResidual] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<[number, number] | null>(null);
+  const [leftSide, setLeftSide] = useState<string[]>([]);
+  // Pinned two-column layout while a run that splits the graph into sides is shown
+  const [columns, setColumns] = useState<Sides | null>(null);
+  const [layout, setLayout] = useState<LayoutKind>('force');
+  // Bumped to re-run the layout after pins are cleared, since pins live on the node objects
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const player = useStepPlayer(1000);
+  const { play: playTrace, clear: clearTrace } = player;
+
+  const availableAlgorithms = GRAPH_ALGORITHMS.filter(a => a.isAvailable(options));
+  const chosenAlgorithm = availableAlgorithms.find(a => a.id === selectedAlgorithm) ?? availableAlgorithms[0];
+  const runningAlgorithm = algorithm ? findGraphAlgorithm(algorithm) : undefined;
+  const cellPath = player.isRunning ? undefined : runningAlgorithm?.cellPath;
+  // Layered layouts hang off the start node; the others ignore it, so picking one doesn't move anything
+  const layoutRoot = layout === 'hierarchical' || layout === 'bipartite' ? selectedStartNode : '';
+  const canvasMode = nodes.length > CANVAS_NODE_LIMIT || links.length > CANVAS_LINK_LIMIT;
+  const graph = useMemo(() => toGraph(nodes, links, options), [nodes, links, options]);
+
+  // Once a run has finished, a clicked matrix cell paints its path over the last frame
+  const frame = useMemo(() => {
+    const labels = player.frame?.matrix?.labels;
+    if (!player.frame || !labels || !selectedCell || !cellPath) return player.frame;
+    return applyStep(player.frame, cellPath(graph, labels[selectedCell[0]], labels[selectedCell[1]]));
+  }, [player.frame, selectedCell, cellPath, graph]);
+  const algorithmExplanation = frame?.narration ?? '';
+  const condensationResult = showCondensation && runningAlgorithm?.hasCondensation && frame && !player.isRunning
+    ? condensation(graph, node => frame.nodes[node]?.group)
+    : null;
+
+  const startRun = useCallback(() => {
+    if (chosenAlgorithm.maxNodes && nodes.length > chosenAlgorithm.maxNodes) {
+      setError(`${chosenAlgorithm.label} can be stepped through on graphs of up to ${chosenAlgorithm.maxNodes} nodes; this one has ${nodes.length}.`);
+      return;
+    }
+    setError('');
+    const startNode = nodes.find(n => n.id === selectedStartNode) ?? nodes[0];
+    const target = chosenAlgorithm.usesTarget && nodes.some(n => n.id === selectedTargetNode)
+      ? selectedTargetNode
+      : undefined;
+    setAlgorithm(chosenAlgorithm.id);
+    setSelectedCell(null);
+    setColumns(chosenAlgorithm.usesSides ? resolveSides(graph, leftSide) : null);
+    onAlgorithmChange?.(chosenAlgorithm.id);
+    playTrace(chosenAlgorithm.run(graph, { start: startNode.id, target, leftSide }));
+  }, [chosenAlgorithm, nodes, selectedStartNode, selectedTargetNode, graph, leftSide, onAlgorithmChange, playTrace]);
+
+  // Cancels the active run; edits do this too because the trace no longer matches the graph
+  const resetRun = useCallback(() => {
+    setAlgorithm(null);
+    setSelectedCell(null);
+    setColumns(null);
+    clearTrace();
+    onAlgorithmChange?.('');
+  }, [onAlgorithmChange, clearTrace]);
 
+  // Layers, markers and the simulation are created once; the effect below only updates them
   useEffect(() => {
-    if (!svgRef.current) return;
+    const canvas = canvasRef.current;
+    if (!svgRef.current || !canvas) return;
 
-    const width = 800;
-    const height = 600;
-
-    // Clear previous SVG content
-    d3.select(svgRef.current).selectAll('*').remove();
-
-    // Create SVG
     const svg = d3.select(svgRef.current)
-      .attr('viewBox', `0 0 ${width} ${height}`)
+      .attr('viewBox', `0 0 ${WIDTH} ${HEIGHT}`)
       .attr('width', '100%')
       .attr('height', '100%');
 
-    if (nodes.length === 0) {
-      // Show empty state
-      svg.append('text')
-        .attr('x', width / 2)
-        .attr('y', height / 2)
-        .attr('text-anchor', 'middle')
-        .attr('fill', '#9ca3af')
-        .style('font-size', '18px')
-        .text('Add nodes and edges to create your graph');
-      return;
-    }
-
-    // Create simulation
-    const simulation = d3.forceSimulation<Node>(nodes)
-      .force('link', d3.forceLink<Node, Link>(links).id(d => d.id).distance(100))
-      .force('charge', d3.forceManyBody().strength(-300))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius(30));
-
-    // Define arrow marker for directed graphs
-    if (graphType === 'directed') {
-      svg.append('defs').append('marker')
-        .attr('id', 'arrowhead')
+    // Arrow markers for directed graphs; loops end on the circle instead of its center,
+    // and the reversed variants sit at the start of a link for transposed frames
+    const defs = svg.append('defs');
+    ([['arrowhead', 25, 'auto'], ['arrowhead-loop', 10, 'auto'], ['arrowhead-reverse', 25, 'auto-start-reverse'], ['arrowhead-loop-reverse', 10, 'auto-start-reverse']] as const).forEach(([id, refX, orient]) => {
+      defs.append('marker')
+        .attr('id', id)
         .attr('viewBox', '-0 -5 10 10')
-        .attr('refX', 25)
+        .attr('refX', refX)
         .attr('refY', 0)
-        .attr('orient', 'auto')
+        .attr('orient', orient)
         .attr('markerWidth', 8)
         .attr('markerHeight', 8)
         .attr('xoverflow', 'visible')
@@ -80,214 +645,388 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
         .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
         .attr('fill', '#999')
         .style('stroke', 'none');
-    }
+    });
 
-    // Draw links
-    const linkGroup = svg.append('g');
-    const link = linkGroup.selectAll('line')
-      .data(links)
-      .join('line')
-      .attr('stroke', '#999')
-      .attr('stroke-opacity', 0.6)
+    const emptyText = svg.append('text')
+      .attr('x', WIDTH / 2)
+      .attr('y', HEIGHT / 2)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#9ca3af')
+      .style('font-size', '18px')
+      .style('pointer-events', 'none')
+      .text('Add nodes and edges to create your graph, or double-click here');
+
+    // Wide transparent strokes under the links make thin edges easy to click and show the selection
+    const viewport = svg.append('g');
+    const hitLayer = viewport.append('g');
+    const linkLayer = viewport.append('g');
+    const weightLayer = viewport.append('g');
+    const edgeLabelLayer = viewport.append('g');
+    const nodeLayer = viewport.append('g');
+
+    // Rubber band shown while shift-dragging a new edge
+    const linkPreview = viewport.append('line')
+      .attr('stroke', '#4f46e5')
       .attr('stroke-width', 2)
-      .attr('marker-end', graphType === 'directed' ? 'url(#arrowhead)' : null);
-
-    // Draw weight labels for weighted graphs
-    let weightLabels: any = null;
-    if (graphType === 'weighted') {
-      weightLabels = svg.append('g')
-        .selectAll('text')
-        .data(links)
-        .join('text')
-        .text(d => d.weight || 1)
+      .attr('stroke-dasharray', '6,4')
+      .style('pointer-events', 'none')
+      .attr('visibility', 'hidden');
+
+    const simulation = d3.forceSimulation<Node, Link>()
+      .force('link', d3.forceLink<Node, Link>().id(d => d.id).distance(100))
+      .force('charge', d3.forceManyBody().strength(-300))
+      .force('center', d3.forceCenter(WIDTH / 2, HEIGHT / 2))
+      .force('collision', d3.forceCollide().radius(30))
+      .stop();
+
+    sceneRef.current = { simulation, emptyText, viewport, hitLayer, linkLayer, weightLayer, edgeLabelLayer, nodeLayer, linkPreview };
+
+    // Clicking empty canvas clears the selection and double-clicking adds a node there.
+    // For graphs drawn on the canvas, the SVG's background is also where nodes and edges are hit.
+    const locate = (event: MouseEvent) => d3.pointer(event, viewport.node());
+    svg
+      .on('click', (event: MouseEvent) => {
+        if (event.target !== svgRef.current) return;
+        canvasActions.current?.select(canvasHits.current?.pick(...locate(event)) ?? null);
+      })
+      .on('dblclick', (event: MouseEvent) => {
+        if (event.target !== svgRef.current) return;
+        const [x, y] = locate(event);
+        const hit = canvasHits.current?.pick(x, y);
+        if (hit) canvasHits.current?.open(hit);
+        else canvasActions.current?.addNodeAt(x, y);
+      })
+      .call(d3.drag<SVGSVGElement, unknown, Node | undefined>()
+        .container(viewport.node()!)
+        .subject(event => canvasHits.current?.nodeAt(event.x, event.y))
+        .on('start', event => canvasHits.current?.grab(event.subject!, [event.x, event.y], event.active > 0, event.sourceEvent.shiftKey))
+        .on('drag', event => canvasHits.current?.drag(event.subject!, [event.x, event.y]))
+        .on('end', event => canvasHits.current?.release(event.subject!, [event.x, event.y], event.active > 0)));
+
+    // The canvas has to be redrawn at its new pixel size
+    const resize = new ResizeObserver(() => drawRef.current?.());
+    resize.observe(canvas);
+
+    return () => {
+      resize.disconnect();
+      simulation.stop();
+      svg.on('click', null).on('dblclick', null).on('.drag', null).selectAll('*').remove();
+      sceneRef.current = null;
+      canvasHits.current = null;
+      nodeGroupRef.current = null;
+      linkRef.current = null;
+      edgeLabelRef.current = null;
+      edgeHitRef.current = null;
+      drawRef.current = null;
+    };
+  }, []);
+
+  // Data joins keep existing nodes and edges where they are, so edits, runs and a new start
+  // node never rebuild the SVG or throw away positions
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const canvas = canvasRef.current;
+    if (!scene || !canvas) return;
+    const { simulation } = scene;
+
+    // Large graphs are drawn on the canvas instead, so the SVG only keeps the run buttons
+    const svgNodes = canvasMode ? [] : nodes;
+    const svgLinks = canvasMode ? [] : links;
+    scene.emptyText.attr('visibility', nodes.length === 0 ? 'visible' : 'hidden');
+
+    // New nodes start near the middle; once anything has a position, changes only settle
+    const placed = nodes.some(n => n.x !== undefined);
+    nodes.forEach(n => {
+      if (n.x !== undefined) return;
+      n.x = WIDTH / 2 + (Math.random() - 0.5) * 100;
+      n.y = HEIGHT / 2 + (Math.random() - 0.5) * 100;
+    });
+    simulation.nodes(nodes);
+    simulation.force<d3.ForceLink<Node, Link>>('link')!.links(links);
+
+    // Matching columns win over the user's pins, and pins over the chosen layout;
+    // with the force layout, unpinned nodes float freely
+    const columnPositions = columns ? twoColumnLayout(columns.left, columns.right, LAYOUT_BOX) : null;
+    const layoutPositions = computeLayout(layout, toGraph(nodes, links, options), LAYOUT_BOX, layoutRoot || undefined);
+    const fixedPosition = (n: Node) => columnPositions?.get(n.id) ?? n.pin ?? layoutPositions?.get(n.id);
+    nodes.forEach(n => {
+      n.fx = fixedPosition(n)?.x ?? null;
+      n.fy = fixedPosition(n)?.y ?? null;
+    });
+
+    // Links are matched by index, like the frame's edge ids; nodes by id
+    const curveOffsets = computeCurveOffsets(links);
+    const isLoop = (d: Link) => endpointId(d.source) === endpointId(d.target);
+
+    const link = scene.linkLayer.selectAll<SVGPathElement, Link>('path')
+      .data(svgLinks)
+      .join(enter => enter.append('path')
+        .attr('fill', 'none')
+        .attr('stroke', '#999')
+        .attr('stroke-opacity', 0.6)
+        .attr('stroke-width', 2)
+        .style('pointer-events', 'none'));
+
+    const edgeHits = scene.hitLayer.selectAll<SVGPathElement, Link>('path')
+      .data(svgLinks)
+      .join(enter => enter.append('path')
+        .attr('fill', 'none')
+        .attr('stroke', '#facc15')
+        .attr('stroke-opacity', 0)
+        .attr('stroke-width', 12)
+        .style('pointer-events', 'stroke')
+        .style('cursor', 'pointer'))
+      .on('click', (_, d) => canvasActions.current?.select({ kind: 'edge', index: links.indexOf(d) }));
+
+    // Weight labels for weighted graphs
+    const weightLabels = scene.weightLayer.selectAll<SVGTextElement, Link>('text')
+      .data(options.weighted ? svgLinks : [])
+      .join(enter => enter.append('text')
         .attr('fill', '#666')
         .attr('text-anchor', 'middle')
         .attr('dy', -5)
         .style('font-weight', 'bold')
         .style('font-size', '12px')
-        .style('background', 'white');
-    }
-
-    // Create node groups
-    const nodeGroup = svg.append('g')
-      .selectAll('g')
-      .data(nodes)
-      .join('g')
-      .call(d3.drag<SVGGElement, Node>()
-        .on('start', dragstarted)
-        .on('drag', dragged)
-        .on('end', dragended) as any);
-
-    // Draw node circles
-    nodeGroup.append('circle')
-      .attr('r', 20)
-      .attr('fill', '#4f46e5')
-      .attr('stroke', '#312e81')
-      .attr('stroke-width', 2)
-      .style('cursor', 'pointer');
-
-    // Draw node labels
-    nodeGroup.append('text')
-      .text(d => d.id)
-      .attr('text-anchor', 'middle')
-      .attr('dy', 5)
-      .attr('fill', 'white')
-      .style('font-weight', 'bold')
-      .style('pointer-events', 'none');
-
-    // BFS implementation
-    const runBFS = async (startNode: Node) => {
-      const queue: Node[] = [startNode];
-      const visited = new Set<string>();
-
-      // Show initial explanation
-      setAlgorithmExplanation(`Starting BFS from node ${startNode.id}. Adding ${startNode.id} to the queue.`);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      while (queue.length > 0) {
-        const current = queue.shift()!;
-        if (visited.has(current.id)) continue;
-
-        visited.add(current.id);
-
-        setAlgorithmExplanation(`Visiting node ${current.id}. Marking it as visited and exploring its neighbors.`);
-
-        // Highlight current node
-        nodeGroup
-          .filter(d => d.id === current.id)
-          .select('circle')
-          .transition()
-          .duration(500)
-          .attr('fill', '#22c55e')
-          .attr('r', 24);
-
-        // Find neighbors
-        const neighbors = getNeighbors(current.id, visited);
-
-        if (neighbors.length > 0) {
-          const neighborIds = neighbors.map(n => n.id).join(', ');
-          setAlgorithmExplanation(`Found unvisited neighbors of ${current.id}: ${neighborIds}. Adding them to the queue.`);
-        } else {
-          setAlgorithmExplanation(`Node ${current.id} has no unvisited neighbors.`);
-        }
-
-        for (const neighbor of neighbors) {
-          if (!visited.has(neighbor.id)) {
-            queue.push(neighbor);
-            highlightEdge(current.id, neighbor.id, '#22c55e');
-          }
-        }
+        .style('cursor', 'text'))
+      .text(d => d.weight ?? 1)
+      .on('dblclick', (event: MouseEvent, d) => {
+        event.stopPropagation();
+        const target = event.currentTarget as SVGTextElement;
+        canvasActions.current?.edit(
+          { kind: 'edge', index: links.indexOf(d) },
+          String(d.weight ?? 1),
+          Number(target.getAttribute('x')),
+          Number(target.getAttribute('y'))
+        );
+      });
 
-        if (queue.length > 0) {
-          const queueIds = queue.map(n => n.id).join(', ');
-          setAlgorithmExplanation(`Queue now contains: [${queueIds}]. Next, we'll process ${queue[0].id}.`);
-        } else {
-          setAlgorithmExplanation(`Queue is empty. BFS traversal complete!`);
-        }
+    // Per-edge annotation such as tree/back edge, filled in by paintFrame
+    const edgeLabels = scene.edgeLabelLayer.selectAll<SVGTextElement, Link>('text')
+      .data(svgLinks)
+      .join(enter => enter.append('text')
+        .attr('fill', '#6b7280')
+        .attr('text-anchor', 'middle')
+        .attr('dy', 14)
+        .style('font-size', '11px')
+        .style('font-style', 'italic')
+        .style('pointer-events', 'none'));
+
+    const nodeGroup = scene.nodeLayer.selectAll<SVGGElement, Node>('g')
+      .data(svgNodes, d => d.id)
+      .join(enter => {
+        const group = enter.append('g');
+
+        // Dashed ring shown around the selected node
+        group.append('circle')
+          .attr('class', 'selection-ring')
+          .attr('r', 30)
+          .attr('fill', 'none')
+          .attr('stroke', '#facc15')
+          .attr('stroke-width', 3)
+          .attr('stroke-dasharray', '5,3')
+          .attr('visibility', 'hidden');
+
+        group.append('circle')
+          .attr('class', 'node-circle')
+          .attr('r', 20)
+          .attr('fill', '#4f46e5')
+          .attr('stroke', '#312e81')
+          .attr('stroke-width', 2)
+          .style('cursor', 'pointer');
+
+        group.append('text')
+          .text(d => d.id)
+          .attr('text-anchor', 'middle')
+          .attr('dy', 5)
+          .attr('fill', 'white')
+          .style('font-weight', 'bold')
+          .style('pointer-events', 'none');
+
+        // Per-node annotation such as a tentative distance, filled in by paintFrame
+        group.append('text')
+          .attr('class', 'node-label')
+          .attr('text-anchor', 'middle')
+          .attr('dy', 40)
+          .attr('fill', '#374151')
+          .style('font-size', '12px')
+          .style('font-weight', 'bold')
+          .style('pointer-events', 'none');
+
+        return group;
+      })
+      .on('click', (_, d) => canvasActions.current?.select({ kind: 'node', id: d.id }))
+      .on('dblclick', (event: MouseEvent, d) => {
+        event.stopPropagation();
+        canvasActions.current?.edit({ kind: 'node', id: d.id }, d.id, d.x ?? 0, d.y ?? 0);
+      });
 
-        await new Promise(resolve => setTimeout(resolve, 1000));
+    nodeGroupRef.current = nodeGroup;
+    linkRef.current = link;
+    edgeLabelRef.current = edgeLabels;
+    edgeHitRef.current = edgeHits;
+    drawRef.current = canvasMode
+      ? () => drawCanvas(canvas, nodes, links, curveOffsets, paintRef.current, zoomTransform.current)
+      : null;
+    const segments = links.map((d): [Node, Node] => [d.source as Node, d.target as Node]);
+
+    // forceLink has replaced every endpoint id with its node object by now
+    const render = () => {
+      setZoomContent({ points: nodes, segments, padding: 30 });
+      if (canvasMode) {
+        drawRef.current?.();
+        return;
       }
-      setIsRunningBFS(false);
+      nodeGroup.attr('transform', d => `translate(${d.x},${d.y})`);
+
+      const geometry = links.map((d, i) => linkGeometry(d.source as Node, d.target as Node, curveOffsets[i], isLoop(d)));
+      link.attr('d', (_, i) => geometry[i].d);
+      edgeHits.attr('d', (_, i) => geometry[i].d);
+      edgeLabels
+        .attr('x', (_, i) => geometry[i].labelX)
+        .attr('y', (_, i) => geometry[i].labelY);
+      weightLabels
+        .attr('x', (_, i) => geometry[i].labelX)
+        .attr('y', (_, i) => geometry[i].labelY);
+    };
+    simulation.on('tick', render);
+    render();
+    if (nodes.length > 0) simulation.alpha(placed ? 0.3 : 1).restart();
+    else simulation.stop();
+
+    // Gestures on a node, in viewBox units; holding shift draws a new edge instead of moving the node
+    let linking = false;
+    let moved = false;
+
+    const showPreview = (line: Tangent | null) => {
+      if (canvasMode) {
+        paintRef.current = { ...paintRef.current, preview: line };
+        drawRef.current?.();
+        return;
+      }
+      if (line) {
+        scene.linkPreview
+          .attr('x1', line[0])
+          .attr('y1', line[1])
+          .attr('x2', line[2])
+          .attr('y2', line[3]);
+      }
+      scene.linkPreview.attr('visibility', line ? 'visible' : 'hidden');
     };
 
-    // DFS implementation
-    const runDFS = async (startNode: Node, visited = new Set<string>()) => {
-      if (visited.has(startNode.id)) return;
-
-      visited.add(startNode.id);
-
-      setAlgorithmExplanation(`Visiting node ${startNode.id}. Marking it as visited and going deeper into its neighbors.`);
-
-      // Highlight current node
-      nodeGroup
-        .filter(d => d.id === startNode.id)
-        .select('circle')
-        .transition()
-        .duration(500)
-        .attr('fill', '#e11d48')
-        .attr('r', 24);
-
-      const neighbors = getNeighbors(startNode.id, visited);
+    const grab = (node: Node, [x, y]: [number, number], active: boolean, shift: boolean) => {
+      linking = shift;
+      moved = false;
+      if (linking) {
+        showPreview([node.x ?? 0, node.y ?? 0, x, y]);
+        return;
+      }
+      if (!active) simulation.alphaTarget(0.3).restart();
+      node.fx = node.x;
+      node.fy = node.y;
+    };
 
-      if (neighbors.length > 0) {
-        const neighborIds = neighbors.map(n => n.id).join(', ');
-        setAlgorithmExplanation(`Found unvisited neighbors of ${startNode.id}: ${neighborIds}. Exploring depth-first.`);
-      } else {
-        setAlgorithmExplanation(`Node ${startNode.id} has no unvisited neighbors. Backtracking...`);
+    const drag = (node: Node, [x, y]: [number, number]) => {
+      if (linking) {
+        showPreview([node.x ?? 0, node.y ?? 0, x, y]);
+        return;
       }
+      moved = true;
+      node.fx = x;
+      node.fy = y;
+    };
 
-      for (const neighbor of neighbors) {
-        if (!visited.has(neighbor.id)) {
-          highlightEdge(startNode.id, neighbor.id, '#e11d48');
-          setAlgorithmExplanation(`Moving from ${startNode.id} to ${neighbor.id} and exploring deeper.`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          await runDFS(neighbor, visited);
-        }
+    const release = (node: Node, [x, y]: [number, number], active: boolean) => {
+      if (linking) {
+        showPreview(null);
+        const target = simulation.find(x, y, 30);
+        if (target && target !== node) canvasActions.current?.connect(node.id, target.id);
+        return;
       }
+      if (!active) simulation.alphaTarget(0);
+      // A plain click doesn't pin, and matching columns snap back
+      if (moved && !columnPositions?.has(node.id)) node.pin = { x, y };
+      node.fx = fixedPosition(node)?.x ?? null;
+      node.fy = fixedPosition(node)?.y ?? null;
     };
 
-    // Helper function to get neighbors
-    const getNeighbors = (nodeId: string, visited: Set<string>) => {
-      return links
-        .filter(l => {
-          const sourceId = typeof l.source === 'string' ? l.source : l.source.id;
-          const targetId = typeof l.target === 'string' ? l.target : l.target.id;
-          
-          if (graphType === 'directed') {
-            return sourceId === nodeId;
-          } else {
-            return sourceId === nodeId || targetId === nodeId;
-          }
-        })
-        .map(l => {
-          const sourceId = typeof l.source === 'string' ? l.source : l.source.id;
-          const targetId = typeof l.target === 'string' ? l.target : l.target.id;
-          const neighborId = sourceId === nodeId ? targetId : sourceId;
-          return nodes.find(n => n.id === neighborId)!;
-        })
-        .filter(neighbor => neighbor && !visited.has(neighbor.id));
+    nodeGroup.call(d3.drag<SVGGElement, Node>()
+      .on('start', (event, d) => grab(d, [event.x, event.y], event.active > 0, event.sourceEvent.shiftKey))
+      .on('drag', (event, d) => drag(d, [event.x, event.y]))
+      .on('end', (event, d) => release(d, [event.x, event.y], event.active > 0)));
+
+    // On the canvas, nodes are found through the simulation's quadtree and edges within the
+    // same 12-unit band as the SVG's transparent strokes
+    const nodeAt = (x: number, y: number) => simulation.find(x, y, 24);
+    const edgeAt = (x: number, y: number) => {
+      const context = canvas.getContext('2d');
+      if (!context) return -1;
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.lineWidth = 12;
+      const index = links.findIndex((d, i) => {
+        const path = new Path2D();
+        traceLink(path, linkGeometry(d.source as Node, d.target as Node, curveOffsets[i], isLoop(d)), isLoop(d));
+        return context.isPointInStroke(path, x, y);
+      });
+      context.restore();
+      return index;
     };
 
-    // Helper function to highlight edges
-    const highlightEdge = (sourceId: string, targetId: string, color: string) => {
-      link
-        .filter(l => {
-          const linkSourceId = typeof l.source === 'string' ? l.source : l.source.id;
-          const linkTargetId = typeof l.target === 'string' ? l.target : l.target.id;
-          
-          if (graphType === 'directed') {
-            return linkSourceId === sourceId && linkTargetId === targetId;
-          } else {
-            return (linkSourceId === sourceId && linkTargetId === targetId) ||
-                   (linkSourceId === targetId && linkTargetId === sourceId);
+    canvasHits.current = canvasMode
+      ? {
+        nodeAt,
+        pick: (x, y) => {
+          const node = nodeAt(x, y);
+          if (node) return { kind: 'node', id: node.id };
+          const edge = edgeAt(x, y);
+          return edge >= 0 ? { kind: 'edge', index: edge } : null;
+        },
+        open: hit => {
+          if (hit.kind === 'node') {
+            const node = nodes.find(n => n.id === hit.id)!;
+            canvasActions.current?.edit(hit, node.id, node.x ?? 0, node.y ?? 0);
+          } else if (options.weighted) {
+            const d = links[hit.index];
+            const { labelX, labelY } = linkGeometry(d.source as Node, d.target as Node, curveOffsets[hit.index], isLoop(d));
+            canvasActions.current?.edit(hit, String(d.weight ?? 1), labelX, labelY);
           }
-        })
-        .transition()
-        .duration(500)
-        .attr('stroke', color)
-        .attr('stroke-width', 3);
-    };
+        },
+        grab,
+        drag,
+        release,
+      }
+      : null;
+  }, [nodes, links, options, columns, layout, layoutRoot, layoutVersion, canvasMode, zoomTransform, setZoomContent]);
 
-    // Reset visualization
-    const resetVisualization = () => {
-      nodeGroup
-        .select('circle')
-        .transition()
-        .duration(500)
-        .attr('fill', '#4f46e5')
-        .attr('r', 20);
-
-      link
-        .transition()
-        .duration(500)
-        .attr('stroke', '#999')
-        .attr('stroke-width', 2);
-    };
+  // Repaint whenever the frame changes or elements were added
+  useEffect(() => {
+    const paint = { accent: runningAlgorithm?.color ?? '#22c55e', directed: options.directed, residual: showResidual };
+    paintRef.current = { ...paintRef.current, frame, paint, weighted: options.weighted };
+    drawRef.current?.();
+    if (!nodeGroupRef.current || !linkRef.current || !edgeLabelRef.current) return;
+    paintFrame(nodeGroupRef.current, linkRef.current, edgeLabelRef.current, frame, paint);
+  }, [frame, runningAlgorithm, nodes, links, options, showResidual, canvasMode]);
+
+  // Selection outlines live in their own layers so selecting never touches the graph
+  useEffect(() => {
+    paintRef.current = { ...paintRef.current, selection };
+    drawRef.current?.();
+    nodeGroupRef.current
+      ?.select('circle.selection-ring')
+      .attr('visibility', d => (sameSelection(selection, { kind: 'node', id: d.id }) ? 'visible' : 'hidden'));
+    edgeHitRef.current
+      ?.attr('stroke-opacity', (_, i) => (sameSelection(selection, { kind: 'edge', index: i }) ? 0.6 : 0));
+  }, [selection, nodes, links, options, canvasMode]);
+
+  // Control buttons sit in their own layer so they track the run state without rebuilding the graph
+  useEffect(() => {
+    if (!svgRef.current || nodes.length === 0) return;
+
+    const controls = d3.select(svgRef.current).append('g');
 
-    // Add control buttons
-    const createButton = (text: string, x: number, onClick: () => void, disabled = false) => {
-      const button = svg.append('g')
-        .attr('transform', `translate(${x}, ${height - 60})`)
+    const createButton = (text: string, x: number, onClick: () => void, disabled = false, buttonWidth = 160) => {
+      const button = controls.append('g')
+        .attr('transform', `translate(${x}, ${HEIGHT - 60})`)
         .style('cursor', disabled ? 'not-allowed' : 'pointer')
         .style('opacity', disabled ? 0.5 : 1);
       
@@ -296,13 +1035,13 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
       }
 
       button.append('rect')
-        .attr('width', 120)
+        .attr('width', buttonWidth)
         .attr('height', 40)
         .attr('rx', 8)
         .attr('fill', '#4f46e5');
 
       button.append('text')
-        .attr('x', 60)
+        .attr('x', buttonWidth / 2)
         .attr('y', 25)
         .attr('text-anchor', 'middle')
         .attr('fill', 'white')
@@ -310,140 +1049,278 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
         .text(text);
     };
 
-    const hasStartNode = selectedStartNode && nodes.some(n => n.id === selectedStartNode);
-
-    createButton('Start BFS', 50, () => {
-      resetVisualization();
-      setIsRunningBFS(true);
-      onAlgorithmChange?.('bfs');
-      const startNode = nodes.find(n => n.id === selectedStartNode) || nodes[0];
-      runBFS(startNode);
-    }, !hasStartNode);
-
-    createButton('Start DFS', 180, () => {
-      resetVisualization();
-      setIsRunningDFS(true);
-      onAlgorithmChange?.('dfs');
-      const startNode = nodes.find(n => n.id === selectedStartNode) || nodes[0];
-      runDFS(startNode);
-    }, !hasStartNode);
-
-    createButton('Reset', 310, () => {
-      resetVisualization();
-      setIsRunningBFS(false);
-      setIsRunningDFS(false);
-      onAlgorithmChange?.('');
-    });
-
-    // Update positions on simulation tick
-    simulation.on('tick', () => {
-      nodeGroup.attr('transform', (d: Node) => `translate(${d.x},${d.y})`);
-      
-      link
-        .attr('x1', (d: Link) => {
-          const source = typeof d.source === 'string' ? nodes.find(n => n.id === d.source) : d.source;
-          return source?.x || 0;
-        })
-        .attr('y1', (d: Link) => {
-          const source = typeof d.source === 'string' ? nodes.find(n => n.id === d.source) : d.source;
-          return source?.y || 0;
-        })
-        .attr('x2', (d: Link) => {
-          const target = typeof d.target === 'string' ? nodes.find(n => n.id === d.target) : d.target;
-          return target?.x || 0;
-        })
-        .attr('y2', (d: Link) => {
-          const target = typeof d.target === 'string' ? nodes.find(n => n.id === d.target) : d.target;
-          return target?.y || 0;
-        });
-
-      if (weightLabels) {
-        weightLabels
-          .attr('x', (d: Link) => {
-            const source = typeof d.source === 'string' ? nodes.find(n => n.id === d.source) : d.source;
-            const target = typeof d.target === 'string' ? nodes.find(n => n.id === d.target) : d.target;
-            return ((source?.x || 0) + (target?.x || 0)) / 2;
-          })
-          .attr('y', (d: Link) => {
-            const source = typeof d.source === 'string' ? nodes.find(n => n.id === d.source) : d.source;
-            const target = typeof d.target === 'string' ? nodes.find(n => n.id === d.target) : d.target;
-            return ((source?.y || 0) + (target?.y || 0)) / 2;
-          });
-      }
-    });
-
-    // Drag functions
-    function dragstarted(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      event.subject.fx = event.subject.x;
-      event.subject.fy = event.subject.y;
-    }
+    const hasNode = (id: string) => nodes.some(n => n.id === id);
+    const canStart = chosenAlgorithm.wholeGraph
+      ? nodes.length > 0
+      : hasNode(selectedStartNode) && (!chosenAlgorithm.requiresTarget || hasNode(selectedTargetNode));
 
-    function dragged(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      event.subject.fx = event.x;
-      event.subject.fy = event.y;
-    }
+    // Wide enough for the longest algorithm label
+    const startLabel = `Start ${chosenAlgorithm.label}`;
+    const startWidth = Math.max(160, startLabel.length * 9 + 20);
+    createButton(startLabel, 50, startRun, !canStart || player.isRunning, startWidth);
 
-    function dragended(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0);
-      event.subject.fx = null;
-      event.subject.fy = null;
-    }
+    createButton('Reset', 70 + startWidth, resetRun);
 
     return () => {
-      simulation.stop();
+      controls.remove();
     };
-  }, [nodes, links, graphType, selectedStartNode]);
+  }, [nodes, chosenAlgorithm, selectedStartNode, selectedTargetNode, player.isRunning, startRun, resetRun]);
+
+  // Every structural edit and graph type change goes through here as one undoable step
+  const commit = (changes: Partial<GraphSnapshot>) => {
+    history.set({ ...history.present, ...changes });
+  };
+
+  // The trace and any selection refer to the graph being left, so both are dropped
+  const undo = () => {
+    if (!history.canUndo) return;
+    resetRun();
+    setError('');
+    setSelection(null);
+    setInlineEdit(null);
+    history.undo();
+  };
+
+  const redo = () => {
+    if (!history.canRedo) return;
+    resetRun();
+    setError('');
+    setSelection(null);
+    setInlineEdit(null);
+    history.redo();
+  };
+
+  useUndoShortcuts(undo, redo);
 
   // Handle adding new nodes
   const handleAddNode = () => {
     if (newNode && !nodes.find(n => n.id === newNode)) {
-      setNodes([...nodes, { id: newNode }]);
+      resetRun();
+      commit({ nodes: [...nodes, { id: newNode }] });
       setNewNode('');
     }
   };
 
+  // Validates and adds one edge, reporting problems through the error banner
+  const addEdge = (source: string, target: string, weight: string) => {
+    if (!source || !target) {
+      setError('Please enter both endpoints of the edge');
+      return false;
+    }
+    const missing = [source, target].find(id => !nodes.some(n => n.id === id));
+    if (missing) {
+      setError(`Node ${missing} does not exist`);
+      return false;
+    }
+
+    const endpoints = [...links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target) })), { source, target }];
+    const conflict = findEdgeConflicts(endpoints, options).find(c => c.index === links.length);
+    if (conflict) {
+      setError(`Cannot add edge: ${conflict.reason}. Change the graph type options to allow it.`);
+      return false;
+    }
+
+    const newLink: Link = {
+      source,
+      target,
+      ...(options.weighted && { weight: parseWeight(weight) })
+    };
+    resetRun();
+    setError('');
+    commit({ links: [...links, newLink] });
+    return true;
+  };
+
   // Handle adding new edges
   const handleAddEdge = () => {
-    const { source, target, weight } = newEdge;
-    
-    if (
-      source &&
-      target &&
-      source !== target &&
-      nodes.some(n => n.id === source) &&
-      nodes.some(n => n.id === target)
-    ) {
-      // Check for duplicate edges based on graph type
-      const isDuplicate = links.some(l => {
-        if (graphType === 'directed') {
-          return l.source === source && l.target === target;
-        } else {
-          return (l.source === source && l.target === target) ||
-                 (l.source === target && l.target === source);
-        }
+    if (addEdge(newEdge.source, newEdge.target, newEdge.weight)) {
+      setNewEdge({ source: '', target: '', weight: '' });
+    }
+  };
+
+  // Removes the selected node with its incident edges, or the selected edge
+  const deleteSelection = () => {
+    if (!selection) return;
+    resetRun();
+    setError('');
+    if (selection.kind === 'node') {
+      commit({
+        nodes: nodes.filter(n => n.id !== selection.id),
+        links: links.filter(l => endpointId(l.source) !== selection.id && endpointId(l.target) !== selection.id),
       });
+      setLeftSide(leftSide.filter(n => n !== selection.id));
+      if (selectedStartNode === selection.id) setSelectedStartNode('');
+      if (selectedTargetNode === selection.id) setSelectedTargetNode('');
+    } else {
+      commit({ links: links.filter((_, i) => i !== selection.index) });
+    }
+    setSelection(null);
+  };
 
-      if (!isDuplicate) {
-        const newLink: Link = { 
-          source, 
-          target,
-          ...(graphType === 'weighted' && { weight: parseInt(weight) || 1 })
-        };
-        setLinks([...links, newLink]);
-        setNewEdge({ source: '', target: '', weight: '' });
-      }
+  // Renaming rewires the edges by id; the node object keeps its position
+  const renameNode = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed === id) return;
+    if (!trimmed) {
+      setError('Node names cannot be empty');
+      return;
     }
+    if (nodes.some(n => n.id === trimmed)) {
+      setError(`Node ${trimmed} already exists`);
+      return;
+    }
+    const rename = (end: string) => (end === id ? trimmed : end);
+    resetRun();
+    setError('');
+    commit({
+      nodes: nodes.map(n => (n.id === id ? { ...n, id: trimmed } : n)),
+      links: links.map(l => ({ ...l, source: rename(endpointId(l.source)), target: rename(endpointId(l.target)) })),
+    });
+    setLeftSide(leftSide.map(rename));
+    setSelectedStartNode(rename(selectedStartNode));
+    setSelectedTargetNode(rename(selectedTargetNode));
+    setSelection({ kind: 'node', id: trimmed });
+  };
+
+  const reweightEdge = (index: number, weight: string) => {
+    resetRun();
+    setError('');
+    commit({ links: links.map((l, i) => (i === index ? { ...l, weight: parseWeight(weight) } : l)) });
+  };
+
+  // Matrix cell edits: a blank value removes every edge between the pair, a number reweights
+  // the first of them or adds a new edge
+  const setEdgeBetween = (source: string, target: string, value: string) => {
+    const matches = links
+      .map((l, i) => ({ index: i, source: endpointId(l.source), target: endpointId(l.target) }))
+      .filter(l => isSameConnection(l, { source, target }, options.directed));
+    if (value === '') {
+      if (matches.length === 0) return;
+      const removed = new Set(matches.map(m => m.index));
+      resetRun();
+      setError('');
+      setSelection(null);
+      commit({ links: links.filter((_, i) => !removed.has(i)) });
+    } else if (matches.length > 0) {
+      if (options.weighted) reweightEdge(matches[0].index, value);
+    } else {
+      addEdge(source, target, value);
+    }
+  };
+
+  const commitInlineEdit = () => {
+    if (!inlineEdit) return;
+    const { target, value } = inlineEdit;
+    setInlineEdit(null);
+    if (target.kind === 'node') renameNode(target.id, value);
+    else reweightEdge(target.index, value);
+  };
+
+  canvasActions.current = {
+    addNodeAt: (x, y) => {
+      resetRun();
+      commit({ nodes: [...nodes, { id: nextNodeId(nodes), x, y }] });
+    },
+    connect: (source, target) => {
+      addEdge(source, target, '');
+    },
+    select: setSelection,
+    // Canvas coordinates are mapped through the SVG's viewBox onto the container
+    edit: (target, value, x, y) => {
+      const svg = svgRef.current;
+      const ctm = svg?.getScreenCTM();
+      const box = containerRef.current?.getBoundingClientRect();
+      if (!ctm || !box) return;
+      const point = new DOMPoint(...zoomTransform.current.apply([x, y])).matrixTransform(ctm);
+      setSelection(target);
+      setInlineEdit({ target, value, left: point.x - box.left, top: point.y - box.top });
+    },
+  };
+
+  // Delete or Backspace removes the selection unless the user is typing somewhere
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const typing = event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLSelectElement ||
+        event.target instanceof HTMLTextAreaElement;
+      if (!selection || typing || (event.key !== 'Delete' && event.key !== 'Backspace')) return;
+      event.preventDefault();
+      deleteSelection();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Toggling an option re-validates the existing edges instead of silently reinterpreting them
+  const changeOption = (key: keyof GraphOptions, value: boolean) => {
+    const next = { ...options, [key]: value };
+    const endpoints = links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target) }));
+    const conflicts = findEdgeConflicts(endpoints, next);
+    if (
+      conflicts.length > 0 &&
+      !window.confirm(
+        `This change would remove ${conflicts.length} edge${conflicts.length === 1 ? '' : 's'}:\n` +
+        conflicts.map(c => `• ${c.reason}`).join('\n') +
+        '\n\nContinue?'
+      )
+    ) {
+      return;
+    }
+
+    const dropped = new Set(conflicts.map(c => c.index));
+    resetRun();
+    setError('');
+    setSelection(null);
+    // Unweighted edges become weight 1 so they show a label once the graph is weighted
+    commit({
+      options: next,
+      links: links
+        .filter((_, i) => !dropped.has(i))
+        .map(l => (next.weighted && l.weight === undefined ? { ...l, weight: 1 } : l)),
+    });
+  };
+
+  // Replaces the graph in one undoable step; the options adapt to what the text or preset describes
+  const importGraph = (data: GraphData) => {
+    const next = importOptions(data, options);
+    resetRun();
+    setError('');
+    setSelection(null);
+    setLeftSide([]);
+    setSelectedStartNode('');
+    setSelectedTargetNode('');
+    commit({
+      options: next,
+      nodes: data.nodes.map(id => ({ id })),
+      links: data.edges.map(e => ({ source: e.source, target: e.target, ...(next.weighted && { weight: e.weight ?? 1 }) })),
+    });
+    setShowImportExport(false);
+  };
+
+  const toggleLeftSide = (id: string) => {
+    setLeftSide(leftSide.includes(id) ? leftSide.filter(n => n !== id) : [...leftSide, id]);
+  };
+
+  const unpinAll = () => {
+    nodes.forEach(n => delete n.pin);
+    setLayoutVersion(v => v + 1);
+  };
+
+  // A new layout starts from scratch rather than keeping nodes dropped for the old one
+  const changeLayout = (next: LayoutKind) => {
+    setLayout(next);
+    unpinAll();
   };
 
   // Clear graph
   const clearGraph = () => {
-    setNodes([]);
-    setLinks([]);
+    if (nodes.length > 0) commit({ nodes: [], links: [] });
     setSelectedStartNode('');
-    setIsRunningBFS(false);
-    setIsRunningDFS(false);
-    onAlgorithmChange?.('');
+    setSelectedTargetNode('');
+    setLeftSide([]);
+    setSelection(null);
+    setError('');
+    resetRun();
   };
 
   return (
@@ -458,22 +1335,37 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Graph Type:
           </label>
-          <div className="flex space-x-4">
-            {(['undirected', 'directed', 'weighted'] as GraphType[]).map(type => (
-              <label key={type} className="flex items-center">
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {(Object.keys(OPTION_LABELS) as (keyof GraphOptions)[]).map(key => (
+              <label key={key} className="flex items-center">
                 <input
-                  type="radio"
-                  value={type}
-                  checked={graphType === type}
-                  onChange={(e) => setGraphType(e.target.value as GraphType)}
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) => changeOption(key, e.target.checked)}
                   className="mr-2"
                 />
-                <span className="capitalize text-gray-700 dark:text-gray-300">{type}</span>
+                <span className="text-gray-700 dark:text-gray-300">{OPTION_LABELS[key]}</span>
               </label>
             ))}
           </div>
         </div>
 
+        {/* Random Graphs */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Generate:
+          </label>
+          <GeneratorPanel onGenerate={importGraph} />
+        </div>
+
+        {/* Layout */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Layout:
+          </label>
+          <LayoutPanel layout={layout} onChange={changeLayout} onUnpin={unpinAll} />
+        </div>
+
         {/* Controls */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
           {/* Add Node */}
@@ -509,7 +1401,7 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
               placeholder="To"
               className="w-16 px-2 py-2 border border-gray-300 rounded-md text-sm"
             />
-            {graphType === 'weighted' && (
+            {options.weighted && (
               <input
                 type="number"
                 value={newEdge.weight}
@@ -540,37 +1432,199 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ onAlgorithmChange })
             </select>
           </div>
 
-          {/* Clear Graph */}
-          <div>
+          {/* Undo, Redo, Import / Export and Clear Graph */}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={undo}
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+            >
+              Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+            >
+              Redo
+            </button>
+            <button
+              onClick={() => setShowImportExport(true)}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+            >
+              Import / Export
+            </button>
             <button
               onClick={clearGraph}
-              className="w-full px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 text-sm"
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 text-sm"
             >
               Clear Graph
             </button>
           </div>
         </div>
 
+        {/* Algorithm Selection */}
+        <div className="flex flex-wrap gap-4 mb-4">
+          <select
+            value={chosenAlgorithm.id}
+            onChange={(e) => setSelectedAlgorithm(e.target.value)}
+            disabled={player.isRunning}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {availableAlgorithms.map(a => (
+              <option key={a.id} value={a.id}>
+                {a.label}{a.maxNodes && nodes.length > a.maxNodes ? ` (up to ${a.maxNodes} nodes)` : ''}
+              </option>
+            ))}
+          </select>
+          {chosenAlgorithm.usesTarget && (
+            <select
+              value={selectedTargetNode}
+              onChange={(e) => setSelectedTargetNode(e.target.value)}
+              disabled={player.isRunning}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">{chosenAlgorithm.requiresTarget ? 'Select sink' : 'No target (full tree)'}</option>
+              {nodes.map(node => (
+                <option key={node.id} value={node.id}>{node.id}</option>
+              ))}
+            </select>
+          )}
+          {chosenAlgorithm.hasResidual && (
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showResidual}
+                onChange={(e) => setShowResidual(e.target.checked)}
+                className="mr-2"
+              />
+              Residual graph
+            </label>
+          )}
+          {chosenAlgorithm.hasCondensation && (
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showCondensation}
+                onChange={(e) => setShowCondensation(e.target.checked)}
+                className="mr-2"
+              />
+              Show condensation DAG when finished
+            </label>
+          )}
+        </div>
+
+        {chosenAlgorithm.usesSides && nodes.length > 0 && (
+          <div className="mb-4">
+            <div className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+              Left side (leave empty to detect the sides automatically):
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {nodes.map(node => (
+                <button
+                  key={node.id}
+                  onClick={() => toggleLeftSide(node.id)}
+                  disabled={player.isRunning}
+                  className={`px-3 py-1 rounded-full text-sm border ${
+                    leftSide.includes(node.id)
+                      ? 'bg-sky-500 border-sky-600 text-white'
+                      : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200'
+                  }`}
+                >
+                  {node.id}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
         {/* Status */}
         <div className="mb-4">
-          {isRunningBFS && <div className="text-green-600 font-medium">Running BFS...</div>}
-          {isRunningDFS && <div className="text-red-600 font-medium">Running DFS...</div>}
+          {runningAlgorithm && player.isRunning && (
+            <div className="font-medium" style={{ color: runningAlgorithm.color }}>
+              {player.isPaused ? `${runningAlgorithm.label} paused` : `Running ${runningAlgorithm.label}...`}
+            </div>
+          )}
           {algorithmExplanation && (
             <div className="mt-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
               <div className="text-blue-800 dark:text-blue-200 text-sm">
                 {algorithmExplanation}
               </div>
+              <TracePanel frame={frame} />
             </div>
           )}
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            Nodes: {nodes.length} | Edges: {links.length} | Type: {graphType}
+            Nodes: {nodes.length} | Edges: {links.length} | Type: {describeOptions(options)}
           </div>
         </div>
 
-        {/* SVG Container */}
-        <div className="border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900">
-          <svg ref={svgRef} className="w-full h-96"></svg>
+        <div className="flex flex-col lg:flex-row gap-4">
+          {/* SVG Container */}
+          <div ref={containerRef} className="relative flex-1 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900">
+            <canvas ref={canvasRef} className={`absolute inset-0 w-full h-full pointer-events-none ${canvasMode ? '' : 'hidden'}`} />
+            <svg ref={svgRef} className="relative block w-full h-96"></svg>
+            <ZoomControls zoom={zoom} />
+            {inlineEdit && (
+              <input
+                autoFocus
+                type={inlineEdit.target.kind === 'edge' ? 'number' : 'text'}
+                value={inlineEdit.value}
+                onChange={(e) => setInlineEdit({ ...inlineEdit, value: e.target.value })}
+                onBlur={commitInlineEdit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitInlineEdit();
+                  if (e.key === 'Escape') setInlineEdit(null);
+                }}
+                style={{ left: inlineEdit.left, top: inlineEdit.top }}
+                className="absolute w-20 -translate-x-1/2 -translate-y-1/2 px-2 py-1 border border-indigo-400 rounded text-sm text-center shadow"
+              />
+            )}
+          </div>
+
+          <div className="flex flex-col gap-4">
+            <AdjacencyPanel graph={graph} frame={frame} onSetEdge={setEdgeBetween} />
+
+            {frame?.matrix && (
+              <MatrixView
+                matrix={frame.matrix}
+                title={cellPath ? 'Distance matrix (click a cell for its path)' : 'Distance matrix'}
+                onCellClick={cellPath ? (row, column) => setSelectedCell([row, column]) : undefined}
+                selected={cellPath ? selectedCell : null}
+              />
+            )}
+          </div>
         </div>
+
+        <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Double-click the canvas to add a node, shift-drag from one node to another to connect them, click a node or edge and press Delete to remove it, and double-click a node or weight to edit it.
+        </div>
+
+        <PlaybackBar player={player} />
+
+        {condensationResult && (
+          <CondensationView condensation={condensationResult} colorOf={groupColor} />
+        )}
+
+        {showImportExport && (
+          <GraphIODialog
+            graph={{
+              nodes: nodes.map(n => n.id),
+              edges: links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target), weight: l.weight })),
+              directed: options.directed,
+              weighted: options.weighted,
+            }}
+            onImport={importGraph}
+            onClose={() => setShowImportExport(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,35 @@
+import React from 'react';
+import { LAYOUTS, type LayoutKind } from '../algorithms/layout';
+
+interface LayoutPanelProps {
+  layout: LayoutKind;
+  onChange: (layout: LayoutKind) => void;
+  // Releases every node the user has dropped somewhere
+  onUnpin: () => void;
+}
+
+const LayoutPanel: React.FC<LayoutPanelProps> = ({ layout, onChange, onUnpin }) => (
+  <div className="flex flex-wrap items-center gap-3">
+    <select
+      value={layout}
+      onChange={(e) => onChange(e.target.value as LayoutKind)}
+      className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+    >
+      {LAYOUTS.map(l => (
+        <option key={l.id} value={l.id}>{l.label}</option>
+      ))}
+    </select>
+    <button
+      onClick={onUnpin}
+      title="Let dragged nodes follow the layout again"
+      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+    >
+      Unpin all
+    </button>
+    <span className="text-xs text-gray-500 dark:text-gray-400">
+      Dragged nodes stay where you drop them.
+    </span>
+  </div>
+);
+
+export default LayoutPanel;
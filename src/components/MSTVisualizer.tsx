@@ -1,39 +1,44 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import type { GraphData } from '../algorithms/formats';
+import { endpointId, type Graph } from '../algorithms/graph';
+import { computeLayout, type LayoutBox, type LayoutKind, type Point } from '../algorithms/layout';
+import { kruskal, prim } from '../algorithms/mst';
+import type { Frame } from '../algorithms/types';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useZoom } from '../hooks/useZoom';
+import GeneratorPanel from './GeneratorPanel';
+import LayoutPanel from './LayoutPanel';
+import PlaybackBar from './PlaybackBar';
+import ZoomControls from './ZoomControls';
 
 interface Node extends d3.SimulationNodeDatum {
   id: string;
+  // Where the user dropped the node; it stays there whatever the layout
+  pin?: Point;
 }
 
 interface Link {
   source: string | Node;
   target: string | Node;
   weight: number;
-  inMST?: boolean;
 }
 
 interface MSTVisualizerProps {
   onAlgorithmChange?: (algorithm: string) => void;
 }
 
-const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const [isRunning, setIsRunning] = useState(false);
-  const [algorithm, setAlgorithm] = useState<'kruskal' | 'prim' | null>(null);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [totalCost, setTotalCost] = useState(0);
-
-  // Sample data with weighted edges
-  const nodes: Node[] = [
-    { id: 'A' },
-    { id: 'B' },
-    { id: 'C' },
-    { id: 'D' },
-    { id: 'E' },
-    { id: 'F' },
-  ];
-
-  const links: Link[] = [
+type MSTAlgorithm = 'kruskal' | 'prim';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+// The bottom strip holds the run buttons
+const LAYOUT_BOX: LayoutBox = { width: WIDTH, height: HEIGHT - 80, margin: 40 };
+
+// The six-node example shown until a graph is generated
+const sampleGraph = (): { nodes: Node[]; links: Link[] } => ({
+  nodes: ['A', 'B', 'C', 'D', 'E', 'F'].map(id => ({ id })),
+  links: [
     { source: 'A', target: 'B', weight: 4 },
     { source: 'B', target: 'C', weight: 8 },
     { source: 'C', target: 'D', weight: 7 },
@@ -43,13 +48,104 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
     { source: 'B', target: 'D', weight: 3 },
     { source: 'C', target: 'F', weight: 6 },
     { source: 'A', target: 'D', weight: 5 },
-  ];
+  ],
+});
+
+const toGraph = (nodes: Node[], links: Link[]): Graph => ({
+  nodes: nodes.map(n => n.id),
+  edges: links.map((l, i) => ({
+    id: String(i),
+    source: endpointId(l.source),
+    target: endpointId(l.target),
+    weight: l.weight,
+  })),
+  directed: false,
+  weighted: true,
+});
+
+// Paint an algorithm frame onto the current d3 selections
+const paintFrame = (
+  nodeGroup: d3.Selection<SVGGElement, Node, SVGGElement, unknown>,
+  link: d3.Selection<SVGLineElement, Link, SVGGElement, unknown>,
+  frame: Frame | null
+) => {
+  link
+    .transition()
+    .duration(500)
+    .attr('stroke', (_, i) => {
+      const status = frame?.edges[String(i)]?.status;
+      return status === 'selected' ? '#22c55e' : status === 'rejected' ? '#ef4444' : '#999';
+    })
+    .attr('stroke-width', (_, i) => frame?.edges[String(i)]?.status === 'selected' ? 3 : 2)
+    .attr('stroke-dasharray', (_, i) => frame?.edges[String(i)]?.status === 'selected' ? 'none' : '4,4');
+
+  nodeGroup.select('circle')
+    .transition()
+    .duration(500)
+    .attr('fill', d => frame?.nodes[d.id]?.status === 'visited' ? '#22c55e' : '#4f46e5')
+    .attr('r', d => frame?.nodes[d.id]?.status === 'visited' ? 24 : 20);
+};
+
+const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const nodeGroupRef = useRef<d3.Selection<SVGGElement, Node, SVGGElement, unknown> | null>(null);
+  const linkRef = useRef<d3.Selection<SVGLineElement, Link, SVGGElement, unknown> | null>(null);
+  const viewportRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
+  const zoom = useZoom(svgRef, {
+    width: WIDTH,
+    height: HEIGHT,
+    onZoom: transform => viewportRef.current?.attr('transform', transform.toString()),
+  });
+  const { transformRef: zoomTransform, setContent: setZoomContent } = zoom;
+  const [algorithm, setAlgorithm] = useState<MSTAlgorithm | null>(null);
+  const player = useStepPlayer(1500);
+  const { isRunning, play: playTrace, clear: clearTrace } = player;
+  const currentStep = Number(player.frame?.metrics['Step'] ?? 0);
+  const totalCost = Number(player.frame?.metrics['Total Cost'] ?? 0);
+
+  const [{ nodes, links }, setGraph] = useState(sampleGraph);
+  const [layout, setLayout] = useState<LayoutKind>('force');
+  // Bumped to re-run the layout after pins are cleared, since pins live on the node objects
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  // Prim's grows the tree from the first node
+  const startRun = useCallback((kind: MSTAlgorithm) => {
+    const graph = toGraph(nodes, links);
+    setAlgorithm(kind);
+    onAlgorithmChange?.(kind);
+    playTrace(kind === 'kruskal' ? kruskal(graph) : prim(graph, nodes[0].id));
+  }, [nodes, links, onAlgorithmChange, playTrace]);
+
+  const resetRun = useCallback(() => {
+    clearTrace();
+    setAlgorithm(null);
+    onAlgorithmChange?.('');
+  }, [onAlgorithmChange, clearTrace]);
+
+  const unpinAll = () => {
+    nodes.forEach(n => delete n.pin);
+    setLayoutVersion(v => v + 1);
+  };
+
+  // A new layout starts from scratch rather than keeping nodes dropped for the old one
+  const changeLayout = (next: LayoutKind) => {
+    setLayout(next);
+    unpinAll();
+  };
+
+  const loadGraph = (data: GraphData) => {
+    resetRun();
+    setGraph({
+      nodes: data.nodes.map(id => ({ id })),
+      links: data.edges.map(e => ({ source: e.source, target: e.target, weight: e.weight ?? 1 })),
+    });
+  };
 
   useEffect(() => {
     if (!svgRef.current) return;
 
-    const width = 800;
-    const height = 600;
+    const width = WIDTH;
+    const height = HEIGHT;
 
     // Clear previous SVG content
     d3.select(svgRef.current).selectAll('*').remove();
@@ -66,9 +162,25 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
       .force('charge', d3.forceManyBody().strength(-300))
       .force('center', d3.forceCenter(width / 2, height / 2));
 
+    // Pins win over the chosen layout; with the force layout, unpinned nodes float freely.
+    // Layered layouts hang off the first node, where Prim's starts.
+    const layoutPositions = computeLayout(layout, toGraph(nodes, links), LAYOUT_BOX, nodes[0]?.id);
+    const fixedPosition = (n: Node) => n.pin ?? layoutPositions?.get(n.id);
+    const placed = nodes.every(n => n.x !== undefined);
+    nodes.forEach(n => {
+      n.fx = fixedPosition(n)?.x ?? null;
+      n.fy = fixedPosition(n)?.y ?? null;
+    });
+    // Nodes that already have positions only settle, so relayouts don't reshuffle the graph
+    if (placed) simulation.alpha(0.3);
+
+    // Everything but the run buttons pans and zooms
+    const viewport = svg.append('g').attr('transform', zoomTransform.current.toString());
+    viewportRef.current = viewport;
+
     // Draw links
-    const link = svg.append('g')
-      .selectAll('line')
+    const link = viewport.append('g')
+      .selectAll<SVGLineElement, Link>('line')
       .data(links)
       .join('line')
       .attr('stroke', '#999')
@@ -77,7 +189,7 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
       .attr('stroke-dasharray', '4,4');
 
     // Draw weight labels
-    const weightLabels = svg.append('g')
+    const weightLabels = viewport.append('g')
       .selectAll('text')
       .data(links)
       .join('text')
@@ -88,14 +200,14 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
       .style('font-weight', 'bold');
 
     // Draw nodes
-    const nodeGroup = svg.append('g')
-      .selectAll('g')
+    const nodeGroup = viewport.append('g')
+      .selectAll<SVGGElement, Node>('g')
       .data(nodes)
       .join('g')
       .call(d3.drag<SVGGElement, Node>()
         .on('start', dragstarted)
         .on('drag', dragged)
-        .on('end', dragended) as any);
+        .on('end', dragended));
 
     nodeGroup.append('circle')
       .attr('r', 20)
@@ -111,198 +223,76 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
       .style('font-weight', 'bold')
       .style('pointer-events', 'none');
 
-    // Reset visualization
-    const resetVisualization = () => {
-      links.forEach(l => l.inMST = false);
-      setTotalCost(0);
-      setCurrentStep(0);
-      
-      link
-        .transition()
-        .duration(500)
-        .attr('stroke', '#999')
-        .attr('stroke-width', 2)
-        .attr('stroke-dasharray', '4,4');
-
-      nodeGroup.select('circle')
-        .transition()
-        .duration(500)
-        .attr('fill', '#4f46e5')
-        .attr('r', 20);
-    };
+    nodeGroupRef.current = nodeGroup;
+    linkRef.current = link;
 
-    // Union-Find data structure for Kruskal's algorithm
-    class UnionFind {
-      private parent: Map<string, string> = new Map();
-      private rank: Map<string, number> = new Map();
+    // forceLink has replaced every endpoint id with its node object by now
+    const segments = links.map((d): [Node, Node] => [d.source as Node, d.target as Node]);
 
-      constructor(nodes: Node[]) {
-        nodes.forEach(node => {
-          this.parent.set(node.id, node.id);
-          this.rank.set(node.id, 0);
-        });
-      }
+    // Update positions on simulation tick
+    simulation.on('tick', () => {
+      setZoomContent({ points: nodes, segments, padding: 30 });
 
-      find(node: string): string {
-        if (this.parent.get(node) !== node) {
-          this.parent.set(node, this.find(this.parent.get(node)!));
-        }
-        return this.parent.get(node)!;
-      }
+      link
+        .attr('x1', d => (d.source as Node).x!)
+        .attr('y1', d => (d.source as Node).y!)
+        .attr('x2', d => (d.target as Node).x!)
+        .attr('y2', d => (d.target as Node).y!);
+
+      weightLabels
+        .attr('x', d => ((d.source as Node).x! + (d.target as Node).x!) / 2)
+        .attr('y', d => ((d.source as Node).y! + (d.target as Node).y!) / 2);
 
-      union(x: string, y: string): boolean {
-        const rootX = this.find(x);
-        const rootY = this.find(y);
+      nodeGroup
+        .attr('transform', d => `translate(${d.x},${d.y})`);
+    });
 
-        if (rootX === rootY) return false;
+    // Drag functions
+    let moved = false;
 
-        const rankX = this.rank.get(rootX)!;
-        const rankY = this.rank.get(rootY)!;
+    function dragstarted(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
+      moved = false;
+      if (!event.active) simulation.alphaTarget(0.3).restart();
+      event.subject.fx = event.subject.x;
+      event.subject.fy = event.subject.y;
+    }
 
-        if (rankX < rankY) {
-          this.parent.set(rootX, rootY);
-        } else if (rankX > rankY) {
-          this.parent.set(rootY, rootX);
-        } else {
-          this.parent.set(rootY, rootX);
-          this.rank.set(rootX, rankX + 1);
-        }
-        return true;
-      }
+    function dragged(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
+      moved = true;
+      event.subject.fx = event.x;
+      event.subject.fy = event.y;
     }
 
-    // Kruskal's Algorithm implementation
-    const runKruskal = async () => {
-      resetVisualization();
-      onAlgorithmChange?.('kruskal');
-      
-      const uf = new UnionFind(nodes);
-      let cost = 0;
-      let step = 0;
-
-      const sortedLinks = [...links].sort((a, b) => a.weight - b.weight);
-
-      for (const l of sortedLinks) {
-        const sourceId = typeof l.source === 'string' ? l.source : l.source.id;
-        const targetId = typeof l.target === 'string' ? l.target : l.target.id;
-
-        if (uf.union(sourceId, targetId)) {
-          l.inMST = true;
-          cost += l.weight;
-          step++;
-
-          setCurrentStep(step);
-          setTotalCost(cost);
-
-          // Highlight nodes
-          nodeGroup
-            .filter(d => d.id === sourceId || d.id === targetId)
-            .select('circle')
-            .transition()
-            .duration(500)
-            .attr('fill', '#22c55e')
-            .attr('r', 24);
-
-          // Highlight edge
-          link
-            .filter(d => d === l)
-            .transition()
-            .duration(500)
-            .attr('stroke', '#22c55e')
-            .attr('stroke-width', 3)
-            .attr('stroke-dasharray', 'none');
-
-          await new Promise(resolve => setTimeout(resolve, 1500));
-        }
-      }
+    function dragended(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
+      if (!event.active) simulation.alphaTarget(0);
+      if (moved) event.subject.pin = { x: event.x, y: event.y };
+      event.subject.fx = fixedPosition(event.subject)?.x ?? null;
+      event.subject.fy = fixedPosition(event.subject)?.y ?? null;
+    }
 
-      setIsRunning(false);
+    return () => {
+      simulation.stop();
     };
+  }, [nodes, links, layout, layoutVersion, zoomTransform, setZoomContent]);
 
-    // Prim's Algorithm implementation
-    const runPrim = async () => {
-      resetVisualization();
-      onAlgorithmChange?.('prim');
-      
-      const visited = new Set<string>();
-      let cost = 0;
-      let step = 0;
-      
-      // Start with node A
-      visited.add('A');
-      nodeGroup
-        .filter(d => d.id === 'A')
-        .select('circle')
-        .transition()
-        .duration(500)
-        .attr('fill', '#22c55e')
-        .attr('r', 24);
-
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      while (visited.size < nodes.length) {
-        let minEdge: Link | null = null;
-        let minWeight = Infinity;
-
-        // Find minimum weight edge from visited to unvisited nodes
-        for (const l of links) {
-          const sourceId = typeof l.source === 'string' ? l.source : l.source.id;
-          const targetId = typeof l.target === 'string' ? l.target : l.target.id;
-
-          if ((visited.has(sourceId) && !visited.has(targetId)) ||
-              (visited.has(targetId) && !visited.has(sourceId))) {
-            if (l.weight < minWeight) {
-              minWeight = l.weight;
-              minEdge = l;
-            }
-          }
-        }
-
-        if (minEdge) {
-          const sourceId = typeof minEdge.source === 'string' ? minEdge.source : minEdge.source.id;
-          const targetId = typeof minEdge.target === 'string' ? minEdge.target : minEdge.target.id;
-          const newNode = visited.has(sourceId) ? targetId : sourceId;
-
-          visited.add(newNode);
-          minEdge.inMST = true;
-          cost += minEdge.weight;
-          step++;
-
-          setCurrentStep(step);
-          setTotalCost(cost);
-
-          // Highlight new node
-          nodeGroup
-            .filter(d => d.id === newNode)
-            .select('circle')
-            .transition()
-            .duration(500)
-            .attr('fill', '#22c55e')
-            .attr('r', 24);
-
-          // Highlight edge
-          link
-            .filter(d => d === minEdge)
-            .transition()
-            .duration(500)
-            .attr('stroke', '#22c55e')
-            .attr('stroke-width', 3)
-            .attr('stroke-dasharray', 'none');
-
-          await new Promise(resolve => setTimeout(resolve, 1500));
-        }
-      }
+  // Repaint whenever the frame changes or the SVG was rebuilt
+  useEffect(() => {
+    if (!nodeGroupRef.current || !linkRef.current) return;
+    paintFrame(nodeGroupRef.current, linkRef.current, player.frame);
+  }, [player.frame, nodes, links, layout, layoutVersion]);
 
-      setIsRunning(false);
-    };
+  // Control buttons sit in their own layer so they track the run state without rebuilding the graph
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const controls = d3.select(svgRef.current).append('g');
 
-    // Create control buttons
     const createButton = (text: string, x: number, onClick: () => void, disabled: boolean = false) => {
-      const button = svg.append('g')
-        .attr('transform', `translate(${x}, ${height - 60})`)
+      const button = controls.append('g')
+        .attr('transform', `translate(${x}, ${HEIGHT - 60})`)
         .style('cursor', disabled ? 'not-allowed' : 'pointer')
-        .style('opacity', disabled ? 0.5 : 1)
-          if (!disabled) {
+        .style('opacity', disabled ? 0.5 : 1);
+      if (!disabled) {
         button.on('click', onClick);
       }
 
@@ -331,69 +321,17 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
         .text(text);
     };
 
-    // Control buttons
-    createButton('Reset', 20, () => {
-      if (!isRunning) {
-        resetVisualization();
-        setAlgorithm(null);
-        onAlgorithmChange?.('');
-      }
-    }, isRunning);
-
-    createButton('Run Kruskal\'s', 200, async () => {
-      if (!isRunning) {
-        setIsRunning(true);
-        setAlgorithm('kruskal');
-        await runKruskal();
-      }
-    }, isRunning);
-
-    createButton('Run Prim\'s', 380, async () => {
-      if (!isRunning) {
-        setIsRunning(true);
-        setAlgorithm('prim');
-        await runPrim();
-      }
-    }, isRunning);
-
-    // Update positions on simulation tick
-    simulation.on('tick', () => {
-      link
-        .attr('x1', d => (d.source as Node).x!)
-        .attr('y1', d => (d.source as Node).y!)
-        .attr('x2', d => (d.target as Node).x!)
-        .attr('y2', d => (d.target as Node).y!);
-
-      weightLabels
-        .attr('x', d => ((d.source as Node).x! + (d.target as Node).x!) / 2)
-        .attr('y', d => ((d.source as Node).y! + (d.target as Node).y!) / 2);
-
-      nodeGroup
-        .attr('transform', d => `translate(${d.x},${d.y})`);
-    });
-
-    // Drag functions
-    function dragstarted(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      event.subject.fx = event.subject.x;
-      event.subject.fy = event.subject.y;
-    }
+    // Reset stays enabled so a run can always be cancelled
+    createButton('Reset', 20, resetRun);
 
-    function dragged(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      event.subject.fx = event.x;
-      event.subject.fy = event.y;
-    }
+    createButton('Run Kruskal\'s', 200, () => startRun('kruskal'), isRunning);
 
-    function dragended(event: d3.D3DragEvent<SVGGElement, Node, Node>) {
-      if (!event.active) simulation.alphaTarget(0);
-      event.subject.fx = null;
-      event.subject.fy = null;
-    }
+    createButton('Run Prim\'s', 380, () => startRun('prim'), isRunning);
 
     return () => {
-      simulation.stop();
+      controls.remove();
     };
-  }, [onAlgorithmChange]);
+  }, [isRunning, startRun, resetRun]);
 
   return (
     <div className="space-y-6">
@@ -405,12 +343,20 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
           Watch how Kruskal's and Prim's algorithms find the minimum spanning tree step by step.
         </p>
 
+        <div className="mb-4">
+          <GeneratorPanel onGenerate={loadGraph} undirectedOnly alwaysWeighted initialPreset="connected-weighted" />
+        </div>
+
+        <div className="mb-4">
+          <LayoutPanel layout={layout} onChange={changeLayout} onUnpin={unpinAll} />
+        </div>
+
         {/* Status Display */}
         {isRunning && (
           <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <div className="flex items-center justify-between">
               <span className="text-blue-800 dark:text-blue-200 font-medium">
-                Running {algorithm === 'kruskal' ? "Kruskal's" : "Prim's"} Algorithm...
+                {player.isPaused ? 'Paused' : 'Running'} {algorithm === 'kruskal' ? "Kruskal's" : "Prim's"} Algorithm...
               </span>
               <div className="flex items-center gap-4">
                 <span className="text-sm text-blue-600 dark:text-blue-300">
@@ -421,14 +367,22 @@ const MSTVisualizer: React.FC<MSTVisualizerProps> = ({ onAlgorithmChange }) => {
                 </span>
               </div>
             </div>
+            {player.frame?.narration && (
+              <div className="mt-2 text-sm text-blue-700 dark:text-blue-300">
+                {player.frame.narration}
+              </div>
+            )}
           </div>
         )}
 
         {/* Visualization Area */}
-        <div className="w-full aspect-video bg-gray-50 dark:bg-gray-700 rounded-lg overflow-hidden">
+        <div className="relative w-full aspect-video bg-gray-50 dark:bg-gray-700 rounded-lg overflow-hidden">
           <svg ref={svgRef} className="w-full h-full" />
+          <ZoomControls zoom={zoom} />
         </div>
 
+        <PlaybackBar player={player} />
+
         {/* Algorithm Info */}
         {algorithm && !isRunning && (
           <div className="mt-4 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { TraceMatrix } from '../algorithms/types';
+
+interface MatrixViewProps {
+  matrix: TraceMatrix;
+  title: string;
+  // Cells are only clickable when a handler is given
+  onCellClick?: (row: number, column: number) => void;
+  selected?: [number, number] | null;
+}
+
+// Node-by-node matrix with the pivot row/column tinted and changed cells highlighted
+const MatrixView: React.FC<MatrixViewProps> = ({ matrix, title, onCellClick, selected }) => {
+  const isHighlighted = (i: number, j: number) => matrix.highlight?.some(([r, c]) => r === i && c === j) ?? false;
+  const isSelected = (i: number, j: number) => selected?.[0] === i && selected?.[1] === j;
+
+  const cellClass = (i: number, j: number) => {
+    if (isSelected(i, j)) return 'bg-orange-200 dark:bg-orange-800/60 ring-2 ring-orange-500';
+    if (isHighlighted(i, j)) return 'bg-yellow-200 dark:bg-yellow-700/50 font-bold';
+    if (matrix.pivot === i || matrix.pivot === j) return 'bg-indigo-50 dark:bg-indigo-900/30';
+    return 'bg-white dark:bg-gray-800';
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h4>
+      <div className="overflow-x-auto">
+        <table className="text-xs text-center border border-gray-200 dark:border-gray-700">
+          <thead className="bg-gray-100 dark:bg-gray-900">
+            <tr>
+              <th className="px-2 py-1" />
+              {matrix.labels.map((label, j) => (
+                <th
+                  key={label}
+                  className={`px-2 py-1 font-medium ${matrix.pivot === j ? 'text-indigo-600 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-300'}`}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.cells.map((row, i) => (
+              <tr key={matrix.labels[i]}>
+                <th
+                  className={`px-2 py-1 font-medium bg-gray-100 dark:bg-gray-900 ${matrix.pivot === i ? 'text-indigo-600 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-300'}`}
+                >
+                  {matrix.labels[i]}
+                </th>
+                {row.map((cell, j) => (
+                  <td
+                    key={j}
+                    onClick={onCellClick ? () => onCellClick(i, j) : undefined}
+                    className={`px-2 py-1 tabular-nums text-gray-800 dark:text-gray-200 transition-colors ${cellClass(i, j)} ${onCellClick ? 'cursor-pointer hover:ring-1 hover:ring-indigo-400' : ''}`}
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MatrixView;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Gauge, Pause, Play, StepBack, StepForward } from 'lucide-react';
+import type { StepPlayer } from '../hooks/useStepPlayer';
+
+interface PlaybackBarProps {
+  player: StepPlayer;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({ player }) => {
+  if (player.total === 0) return null;
+
+  const buttonClass = 'p-2 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50';
+  const speedIndex = Math.max(0, SPEEDS.indexOf(player.speed));
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 p-3 bg-gray-100 dark:bg-gray-900 rounded-lg">
+      <button
+        onClick={player.stepBackward}
+        disabled={player.position === 0}
+        className={buttonClass}
+        aria-label="Step backward"
+      >
+        <StepBack className="w-4 h-4" />
+      </button>
+      <button
+        onClick={player.isPlaying ? player.pause : player.resume}
+        className="p-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+        aria-label={player.isPlaying ? 'Pause' : 'Play'}
+      >
+        {player.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={player.stepForward}
+        disabled={player.position >= player.total - 1}
+        className={buttonClass}
+        aria-label="Step forward"
+      >
+        <StepForward className="w-4 h-4" />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={player.total - 1}
+        value={player.position}
+        onChange={(e) => player.seek(Number(e.target.value))}
+        className="flex-1 min-w-[120px] accent-indigo-600"
+        aria-label="Timeline"
+      />
+      <span className="text-sm text-gray-600 dark:text-gray-400 tabular-nums">
+        Step {player.position + 1} / {player.total}
+      </span>
+
+      <div className="flex items-center gap-2">
+        <Gauge className="w-4 h-4 text-gray-500" />
+        <input
+          type="range"
+          min={0}
+          max={SPEEDS.length - 1}
+          value={speedIndex}
+          onChange={(e) => player.setSpeed(SPEEDS[Number(e.target.value)])}
+          className="w-24 accent-indigo-600"
+          aria-label="Speed"
+        />
+        <span className="text-sm text-gray-600 dark:text-gray-400 w-10">{player.speed}x</span>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackBar;
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { Frame } from '../algorithms/types';
+
+interface TracePanelProps {
+  frame: Frame | null;
+}
+
+// Metrics, lists (queues, stacks, orderings) and the side table of the current frame
+const TracePanel: React.FC<TracePanelProps> = ({ frame }) => {
+  if (!frame) return null;
+
+  const lists = Object.entries(frame.lists);
+  const metrics = Object.entries(frame.metrics);
+  const { table } = frame;
+  if (lists.length === 0 && metrics.length === 0 && !table) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {metrics.length > 0 && (
+        <div className="flex flex-wrap gap-4 text-xs text-gray-700 dark:text-gray-300">
+          {metrics.map(([name, value]) => (
+            <span key={name}>
+              <span className="font-medium">{name}:</span> {value}
+            </span>
+          ))}
+        </div>
+      )}
+      {lists.map(([name, items]) => (
+        <div key={name} className="flex flex-wrap items-center gap-1 text-xs">
+          <span className="font-medium text-gray-700 dark:text-gray-300 mr-1">{name}:</span>
+          {items.length === 0 ? (
+            <span className="text-gray-400">empty</span>
+          ) : (
+            items.map((item, i) => (
+              <span
+                key={`${item}-${i}`}
+                className="px-2 py-0.5 rounded bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200"
+              >
+                {item}
+              </span>
+            ))
+          )}
+        </div>
+      ))}
+
+      {table && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs text-left border border-gray-200 dark:border-gray-700">
+            <thead className="bg-gray-100 dark:bg-gray-900">
+              <tr>
+                {table.columns.map(column => (
+                  <th key={column} className="px-2 py-1 font-medium text-gray-700 dark:text-gray-300">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map(row => (
+                <tr
+                  key={row.key}
+                  className={table.highlight?.includes(row.key)
+                    ? 'bg-yellow-100 dark:bg-yellow-900/30'
+                    : 'bg-white dark:bg-gray-800'}
+                >
+                  {row.cells.map((cell, i) => (
+                    <td key={i} className="px-2 py-1 text-gray-800 dark:text-gray-200 tabular-nums">
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TracePanel;
@@ -1,43 +1,106 @@
-import React, { useState } from 'react';
-
-interface TreeNode {
-  value: number;
-  left: TreeNode | null;
-  right: TreeNode | null;
-}
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BST_QUERIES,
+  deleteBSTSteps,
+  insertBSTSteps,
+  queryBSTSteps,
+  traverseTreeSteps,
+  treeNodeId,
+  type BSTQuery,
+  type Replacement,
+  type Side,
+  type TraversalOrder,
+  type TreeNode,
+} from '../algorithms/tree';
+import type { NodeStatus, Step } from '../algorithms/types';
+import { useHistory, useUndoShortcuts } from '../hooks/useHistory';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useZoom, type Position } from '../hooks/useZoom';
+import BSTQueryPanel from './BSTQueryPanel';
+import PlaybackBar from './PlaybackBar';
+import TracePanel from './TracePanel';
+import ZoomControls from './ZoomControls';
 
 interface TreeVisualizerProps {
   onAlgorithmChange?: (algorithm: string) => void;
 }
 
+const TREE_WIDTH = 600;
+// Where the root is drawn
+const ROOT_X = TREE_WIDTH / 2;
+const ROOT_Y = 40;
+
+// Horizontal offset from a node at this level to each of its children
+const childSpacing = (level: number) => Math.max(60, 200 / Math.pow(2, level - 1));
+
+const otherSide = (side: Side): Side => (side === 'left' ? 'right' : 'left');
+
+// Traversals mark visited nodes; edits also mark the node being compared, the node being
+// removed and the nodes that take its place
+const nodeClass = (status: NodeStatus | undefined, isSelected: boolean) => {
+  switch (status) {
+    case 'visited':
+      return 'fill-red-500 stroke-red-700';
+    case 'current':
+      return 'fill-orange-400 stroke-orange-600';
+    case 'path':
+      return 'fill-green-500 stroke-green-700';
+    case 'conflict':
+      return 'fill-gray-400 stroke-gray-600 opacity-60';
+    default:
+      return isSelected ? 'fill-yellow-500 stroke-yellow-700' : 'fill-indigo-500 stroke-indigo-700';
+  }
+};
+
+// Node centers and parent-child lines in SVG coordinates, for fitting and the minimap
+const treeShape = (root: TreeNode | null) => {
+  const points: Position[] = [];
+  const segments: [Position, Position][] = [];
+  const place = (node: TreeNode, point: Position, level: number) => {
+    points.push(point);
+    const spacing = childSpacing(level);
+    ([[node.left, -spacing], [node.right, spacing]] as const).forEach(([child, dx]) => {
+      if (!child) return;
+      const childPoint = { x: point.x! + dx, y: point.y! + 80 };
+      segments.push([point, childPoint]);
+      place(child, childPoint, level + 1);
+    });
+  };
+  if (root) place(root, { x: ROOT_X, y: ROOT_Y }, 1);
+  return { points, segments };
+};
+
 const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) => {
-  const [treeData, setTreeData] = useState<TreeNode | null>(null);
+  // Tree snapshots are never mutated, so history can hold on to them
+  const history = useHistory<TreeNode | null>(null);
+  const treeData = history.present;
   const [inputValue, setInputValue] = useState('');
   const [error, setError] = useState('');
-  const [highlightedNodes, setHighlightedNodes] = useState<number[]>([]);
-  const [traversalArrows, setTraversalArrows] = useState<{ from: number; to: number }[]>([]);
-  const [traversalList, setTraversalList] = useState<number[]>([]);
-  const [isTraversing, setIsTraversing] = useState(false);
+  const player = useStepPlayer(800);
+  const isTraversing = player.isRunning;
+  const traversalList = player.frame?.lists['Visited'] ?? [];
   const [treeType, setTreeType] = useState<'bst' | 'binary'>('bst');
   const [selectedNode, setSelectedNode] = useState<number | null>(null);
   const [insertPosition, setInsertPosition] = useState<'left' | 'right'>('left');
-
-  // Insert node into BST
-  const insertNodeBST = (root: TreeNode | null, value: number): TreeNode => {
-    if (!root) {
-      return { value, left: null, right: null };
-    }
-    
-    if (value < root.value) {
-      root.left = insertNodeBST(root.left, value);
-    } else if (value > root.value) {
-      root.right = insertNodeBST(root.right, value);
-    }
-    
-    return root;
+  const [replacement, setReplacement] = useState<Replacement>('successor');
+  const [promoteSide, setPromoteSide] = useState<Side>('left');
+  // The tree an edit's trace is drawn on until its last step, which shows the result
+  const [traceTree, setTraceTree] = useState<TreeNode | null>(null);
+  const [runTitle, setRunTitle] = useState('');
+  const shownTree = isTraversing && traceTree ? traceTree : treeData;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const viewportRef = useRef<SVGGElement>(null);
+
+  // Plays a trace drawn on the given tree; an edit's result is already in history by then
+  const playTrace = (tree: TreeNode | null, title: string, algorithm: string, steps: Step[]) => {
+    setTraceTree(tree);
+    setRunTitle(title);
+    onAlgorithmChange?.(algorithm);
+    player.play(steps);
   };
 
-  // Insert node into binary tree at specific position
+  // Insert node into binary tree at specific position; returns the updated copy, or null
+  // when the parent is missing or the position is occupied
   const insertNodeBinary = (root: TreeNode | null, value: number, targetValue: number, position: 'left' | 'right'): TreeNode | null => {
     if (!root) {
       return null;
@@ -46,20 +109,18 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
     if (root.value === targetValue) {
       const newNode = { value, left: null, right: null };
       if (position === 'left' && !root.left) {
-        root.left = newNode;
-        return root;
+        return { ...root, left: newNode };
       } else if (position === 'right' && !root.right) {
-        root.right = newNode;
-        return root;
+        return { ...root, right: newNode };
       }
       return null; // Position already occupied
     }
     
     const leftResult = insertNodeBinary(root.left, value, targetValue, position);
-    if (leftResult) return root;
+    if (leftResult) return { ...root, left: leftResult };
     
     const rightResult = insertNodeBinary(root.right, value, targetValue, position);
-    if (rightResult) return root;
+    if (rightResult) return { ...root, right: rightResult };
     
     return null;
   };
@@ -79,19 +140,20 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
     setError('');
     
     if (treeType === 'bst') {
-      setTreeData(prev => insertNodeBST(prev, value));
+      const edit = insertBSTSteps(treeData, value);
+      history.set(edit.tree);
+      playTrace(treeData, `Inserting ${value}`, 'bst-insert', edit.steps);
     } else {
       // Binary tree mode
       if (!treeData) {
-        setTreeData({ value, left: null, right: null });
+        history.set({ value, left: null, right: null });
       } else if (selectedNode === null) {
         setError('Please select a parent node for binary tree insertion');
         return;
       } else {
-        const newTree = { ...treeData };
-        const inserted = insertNodeBinary(newTree, value, selectedNode, insertPosition);
+        const inserted = insertNodeBinary(treeData, value, selectedNode, insertPosition);
         if (inserted) {
-          setTreeData(newTree);
+          history.set(inserted);
         } else {
           setError(`Cannot insert at ${insertPosition} of node ${selectedNode} - position occupied or node not found`);
           return;
@@ -103,61 +165,105 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
     setSelectedNode(null);
   };
 
-  const findNode = (root: TreeNode | null, value: number): boolean => {
-    if (!root) return false;
-    if (root.value === value) return true;
-    return findNode(root.left, value) || findNode(root.right, value);
+  const findNode = (root: TreeNode | null, value: number): TreeNode | null => {
+    if (!root) return null;
+    if (root.value === value) return root;
+    return findNode(root.left, value) ?? findNode(root.right, value);
   };
 
-  const clearTree = () => {
-    setTreeData(null);
-    setHighlightedNodes([]);
-    setTraversalArrows([]);
-    setTraversalList([]);
+  // Remove the node with this value and everything below it
+  const removeSubtree = (root: TreeNode | null, value: number): TreeNode | null => {
+    if (!root || root.value === value) return null;
+    return { ...root, left: removeSubtree(root.left, value), right: removeSubtree(root.right, value) };
+  };
+
+  // Hang a subtree off the outermost free slot on one side, e.g. right of the rightmost node
+  const attachOutermost = (root: TreeNode, subtree: TreeNode, side: Side): TreeNode => {
+    const next = root[side];
+    return { ...root, [side]: next ? attachOutermost(next, subtree, side) : subtree };
+  };
+
+  // Remove only the node with this value; the promoted child takes its place and the other
+  // child's subtree hangs below it on the far side, which keeps the in-order sequence
+  const removeSingleNode = (root: TreeNode | null, value: number, promote: Side): TreeNode | null => {
+    if (!root) return null;
+    if (root.value !== value) {
+      return { ...root, left: removeSingleNode(root.left, value, promote), right: removeSingleNode(root.right, value, promote) };
+    }
+    const promoted = root[promote];
+    const other = root[otherSide(promote)];
+    if (!promoted || !other) return promoted ?? other;
+    return attachOutermost(promoted, other, otherSide(promote));
+  };
+
+  const deleteNodeBST = () => {
+    const value = parseInt(inputValue);
+    if (isNaN(value)) {
+      setError('Please enter a valid number');
+      return;
+    }
+    if (!treeData) {
+      setError('The tree is empty');
+      return;
+    }
+
     setError('');
+    const edit = deleteBSTSteps(treeData, value, replacement);
+    if (edit.tree !== treeData) history.set(edit.tree);
+    playTrace(treeData, `Deleting ${value}`, 'bst-delete', edit.steps);
+    setInputValue('');
   };
 
-  const traverseTree = async (order: 'preorder' | 'inorder' | 'postorder') => {
-    if (!treeData || isTraversing) return;
-    
-    setIsTraversing(true);
-    setHighlightedNodes([]);
-    setTraversalArrows([]);
-    setTraversalList([]);
-    onAlgorithmChange?.(order);
+  const runQuery = (query: BSTQuery) => {
+    if (!treeData) {
+      setError('The tree is empty');
+      return;
+    }
+    const { label } = BST_QUERIES.find(q => q.id === query.kind)!;
+    const title = query.kind === 'range'
+      ? `Range [${query.lo}, ${query.hi}]`
+      : 'value' in query ? `${label} of ${query.value}` : label;
+    setError('');
+    playTrace(treeData, title, 'bst-query', queryBSTSteps(treeData, query));
+  };
 
-    const result: number[] = [];
-    const arrows: { from: number; to: number }[] = [];
+  const removeSelected = (mode: 'node' | 'subtree') => {
+    if (selectedNode === null) return;
+    history.set(mode === 'subtree' ? removeSubtree(treeData, selectedNode) : removeSingleNode(treeData, selectedNode, promoteSide));
+    player.clear();
+    setSelectedNode(null);
+    setError('');
+  };
 
-    const traverse = (node: TreeNode | null, prev?: number) => {
-      if (!node) return;
+  const clearTree = () => {
+    if (treeData) history.set(null);
+    player.clear();
+    setError('');
+  };
 
-      if (order === 'preorder') {
-        result.push(node.value);
-      }
-      if (prev !== undefined) arrows.push({ from: prev, to: node.value });
+  // A traversal or parent selection would point into the tree being left
+  const undo = () => {
+    if (!history.canUndo) return;
+    player.clear();
+    setSelectedNode(null);
+    setError('');
+    history.undo();
+  };
 
-      traverse(node.left, node.value);
-      if (order === 'inorder') {
-        result.push(node.value);
-      }
-      traverse(node.right, node.value);
-      if (order === 'postorder') {
-        result.push(node.value);
-      }
-    };
+  const redo = () => {
+    if (!history.canRedo) return;
+    player.clear();
+    setSelectedNode(null);
+    setError('');
+    history.redo();
+  };
 
-    traverse(treeData);
+  useUndoShortcuts(undo, redo);
 
-    // Animate the traversal
-    for (let i = 0; i < result.length; i++) {
-      setHighlightedNodes(result.slice(0, i + 1));
-      setTraversalArrows(arrows.slice(0, i));
-      setTraversalList(result.slice(0, i + 1));
-      await new Promise(resolve => setTimeout(resolve, 800));
-    }
+  const traverseTree = (order: TraversalOrder) => {
+    if (!treeData || isTraversing) return;
 
-    setIsTraversing(false);
+    playTrace(treeData, 'Traversing tree', order, traverseTreeSteps(treeData, order));
   };
 
   const calculateTreeHeight = (node: TreeNode | null): number => {
@@ -165,42 +271,46 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
     return 1 + Math.max(calculateTreeHeight(node.left), calculateTreeHeight(node.right));
   };
 
-  const svgHeight = Math.max(400, calculateTreeHeight(treeData) * 80 + 100);
+  const svgHeight = Math.max(400, calculateTreeHeight(shownTree) * 80 + 100);
+
+  // React never sets the viewport's transform, so zooming can write it directly
+  const zoom = useZoom(svgRef, {
+    width: TREE_WIDTH,
+    height: svgHeight,
+    onZoom: transform => viewportRef.current?.setAttribute('transform', transform.toString()),
+  });
+  const { setContent: setZoomContent } = zoom;
+
+  useEffect(() => {
+    setZoomContent({ ...treeShape(shownTree), padding: 30 });
+  }, [shownTree, setZoomContent]);
 
   const renderTree = (node: TreeNode | null, x: number, y: number, level: number): JSX.Element | null => {
     if (!node) return null;
 
-    const spacing = Math.max(60, 200 / Math.pow(2, level - 1));
-    const isHighlighted = highlightedNodes.includes(node.value);
+    const spacing = childSpacing(level);
+    const mark = player.frame?.nodes[treeNodeId(node.value)];
+    const hasArrow = player.frame?.edges[treeNodeId(node.value)]?.status === 'selected';
     const isSelected = selectedNode === node.value;
 
     return (
       <g key={`${node.value}-${x}-${y}`}>
-        {traversalArrows
-          .filter((arrow) => arrow.to === node.value)
-          .map((arrow, index) => (
-            <line
-              key={`arrow-${index}`}
-              x1={x}
-              y1={y - 40}
-              x2={x}
-              y2={y - 5}
-              className="stroke-red-500 stroke-2 animate-pulse"
-              markerEnd="url(#arrowhead)"
-            />
-          ))}
+        {hasArrow && (
+          <line
+            x1={x}
+            y1={y - 40}
+            x2={x}
+            y2={y - 5}
+            className="stroke-red-500 stroke-2 animate-pulse"
+            markerEnd="url(#arrowhead)"
+          />
+        )}
 
         <circle 
           cx={x} 
           cy={y} 
           r="20" 
-          className={`transition-all duration-300 cursor-pointer ${
-            isHighlighted 
-              ? 'fill-red-500 stroke-red-700' 
-              : isSelected 
-                ? 'fill-yellow-500 stroke-yellow-700'
-                : 'fill-indigo-500 stroke-indigo-700'
-          } stroke-2`}
+          className={`transition-all duration-300 cursor-pointer ${nodeClass(mark?.status, isSelected)} stroke-2`}
           onClick={() => treeType === 'binary' && !isTraversing ? setSelectedNode(node.value) : null}
         />
         <text 
@@ -211,6 +321,15 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
         >
           {node.value}
         </text>
+        {mark?.label && (
+          <text
+            x={x + 24}
+            y={y - 14}
+            className="fill-gray-700 dark:fill-gray-200 text-xs pointer-events-none"
+          >
+            {mark.label}
+          </text>
+        )}
 
         {node.left && (
           <>
@@ -321,11 +440,51 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
             >
               Add Node
             </button>
+
+            {treeType === 'bst' && (
+              <>
+                <select
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value as Replacement)}
+                  disabled={isTraversing}
+                  title="What replaces a deleted node that has two children"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="successor">Use successor</option>
+                  <option value="predecessor">Use predecessor</option>
+                </select>
+                <button
+                  onClick={deleteNodeBST}
+                  disabled={!treeData || isTraversing}
+                  className="px-4 py-2 bg-rose-600 text-white rounded-md hover:bg-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-500 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={undo}
+              disabled={!history.canUndo}
+              title="Undo (Ctrl+Z)"
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              Redo
+            </button>
           </div>
 
           <button
             onClick={clearTree}
-            disabled={isTraversing}
             className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
           >
             Clear Tree
@@ -356,6 +515,15 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
           </div>
         </div>
 
+        {treeType === 'bst' && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Query:
+            </label>
+            <BSTQueryPanel onRun={runQuery} disabled={!treeData || isTraversing} />
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
             {error}
@@ -375,53 +543,86 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ onAlgorithmChange }) =>
               <br />
               3. Click "Add Node" to insert
             </div>
+            {selectedNode !== null && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => removeSelected('node')}
+                  className="px-3 py-1 bg-rose-600 text-white rounded-md hover:bg-rose-700 text-sm"
+                >
+                  Remove {selectedNode}
+                </button>
+                {findNode(treeData, selectedNode)?.left && findNode(treeData, selectedNode)?.right && (
+                  <select
+                    value={promoteSide}
+                    onChange={(e) => setPromoteSide(e.target.value as Side)}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="left">promoting its left child</option>
+                    <option value="right">promoting its right child</option>
+                  </select>
+                )}
+                <button
+                  onClick={() => removeSelected('subtree')}
+                  className="px-3 py-1 bg-red-700 text-white rounded-md hover:bg-red-800 text-sm"
+                >
+                  Remove subtree of {selectedNode}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
-        {isTraversing && (
+        {/* A finished traversal gets its own summary below; other runs keep their last narration here */}
+        {player.frame && (isTraversing || traversalList.length === 0) && (
           <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-            <div className="flex items-center justify-between">
-              <span className="text-blue-800 dark:text-blue-200 font-medium">
-                Traversing tree...
-              </span>
-              <span className="text-sm text-blue-600 dark:text-blue-300">
-                Visited: [{traversalList.join(', ')}]
-              </span>
+            <div className="text-blue-800 dark:text-blue-200 font-medium">
+              {isTraversing ? `${runTitle}${player.isPaused ? ' (paused)' : '...'}` : `${runTitle}: done`}
             </div>
+            {player.frame?.narration && (
+              <div className="mt-2 text-sm text-blue-700 dark:text-blue-300">
+                {player.frame.narration}
+              </div>
+            )}
+            <TracePanel frame={player.frame} />
           </div>
         )}
 
-        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 overflow-auto border">
-          {treeData ? (
-            <svg
-              width="100%"
-              height={svgHeight}
-              viewBox={`0 0 600 ${svgHeight}`}
-              className="mx-auto"
-            >
-              <defs>
-                <marker 
-                  id="arrowhead" 
-                  markerWidth="10" 
-                  markerHeight="7" 
-                  refX="5" 
-                  refY="3.5" 
-                  orient="auto"
-                >
-                  <polygon points="0 0, 10 3.5, 0 7" className="fill-red-500" />
-                </marker>
-              </defs>
-              <g transform="translate(300, 40)">
-                {renderTree(treeData, 0, 0, 1)}
+        <div className="relative bg-gray-50 dark:bg-gray-700 rounded-lg p-4 overflow-hidden border">
+          <svg
+            ref={svgRef}
+            width="100%"
+            height={svgHeight}
+            viewBox={`0 0 ${TREE_WIDTH} ${svgHeight}`}
+            className="mx-auto"
+          >
+            <defs>
+              <marker 
+                id="arrowhead" 
+                markerWidth="10" 
+                markerHeight="7" 
+                refX="5" 
+                refY="3.5" 
+                orient="auto"
+              >
+                <polygon points="0 0, 10 3.5, 0 7" className="fill-red-500" />
+              </marker>
+            </defs>
+            <g ref={viewportRef}>
+              <g transform={`translate(${ROOT_X}, ${ROOT_Y})`}>
+                {renderTree(shownTree, 0, 0, 1)}
               </g>
-            </svg>
-          ) : (
-            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            </g>
+          </svg>
+          {!treeData && (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-500 dark:text-gray-400 pointer-events-none">
               <p className="text-lg">No tree yet. Add some nodes to get started!</p>
             </div>
           )}
+          <ZoomControls zoom={zoom} />
         </div>
 
+        <PlaybackBar player={player} />
+
         {traversalList.length > 0 && !isTraversing && (
           <div className="mt-4 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
             <h3 className="font-semibold text-green-800 dark:text-green-200 mb-2">
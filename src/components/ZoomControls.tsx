@@ -0,0 +1,37 @@
+import React from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Zoom } from '../hooks/useZoom';
+
+interface ZoomControlsProps {
+  zoom: Zoom;
+}
+
+// Zoom buttons in the top-right corner and the minimap in the bottom-right corner of a
+// relatively positioned canvas container
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom }) => {
+  const buttonClass = 'p-1.5 rounded-md bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-200 shadow hover:bg-gray-100 dark:hover:bg-gray-700';
+
+  return (
+    <>
+      <div className="absolute top-2 right-2 flex gap-1">
+        <button onClick={() => zoom.zoomBy(1.5)} className={buttonClass} aria-label="Zoom in" title="Zoom in (mouse wheel)">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoom.zoomBy(1 / 1.5)} className={buttonClass} aria-label="Zoom out" title="Zoom out (mouse wheel)">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={zoom.fit} className={buttonClass} aria-label="Fit to content" title="Fit to content">
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+      <canvas
+        ref={zoom.minimapRef}
+        style={{ visibility: 'hidden' }}
+        className="absolute bottom-2 right-2 w-40 h-28 rounded border border-gray-300 dark:border-gray-600 bg-white/90 dark:bg-gray-800/90 shadow cursor-pointer"
+        title="Click or drag to move the view"
+      />
+    </>
+  );
+};
+
+export default ZoomControls;
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Undo/redo stack of immutable snapshots; setting a new value drops the redo branch
+export const useHistory = <T>(initial: T, limit = 100) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T) => {
+    setHistory(h => ({ past: [...h.past, h.present].slice(-limit), present: next, future: [] }));
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    setHistory(h => (h.past.length === 0
+      ? h
+      : { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => (h.future.length === 0
+      ? h
+      : { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }));
+  }, []);
+
+  return {
+    present: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    set,
+    undo,
+    redo,
+  };
+};
+
+// Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes, Cmd on macOS; text fields keep their own undo
+export const useUndoShortcuts = (undo: () => void, redo: () => void) => {
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const typing = event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLSelectElement ||
+        event.target instanceof HTMLTextAreaElement;
+      if (typing || !(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+};
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createFrameStore } from '../algorithms/trace';
+import type { Frame, Step } from '../algorithms/types';
+
+// Plays a step trace one frame per interval, with pause, stepping, seeking and speed control
+export const useStepPlayer = (interval: number) => {
+  const [steps, setSteps] = useState<Step[]>([]);
+  const [position, setPosition] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const store = useMemo(() => createFrameStore(steps), [steps]);
+  // Frames are rebuilt on demand; memoized so a rerender at the same position reuses the frame
+  const frame: Frame | null = useMemo(() => store.frameAt(position), [store, position]);
+  const total = store.total;
+  // A run stays active while paused or scrubbed back, until the last frame is shown
+  const isRunning = position < total - 1;
+  const isPlaying = isRunning && !isPaused;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => setPosition(p => p + 1), interval / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, interval, speed]);
+
+  const play = useCallback((next: Step[]) => {
+    setSteps(next);
+    setPosition(0);
+    setIsPaused(false);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSteps([]);
+    setPosition(0);
+    setIsPaused(false);
+  }, []);
+
+  const pause = useCallback(() => setIsPaused(true), []);
+
+  const resume = useCallback(() => {
+    // Resuming from the last frame replays the trace from the start
+    setPosition(p => (p >= total - 1 ? 0 : p));
+    setIsPaused(false);
+  }, [total]);
+
+  const seek = useCallback((index: number) => {
+    setIsPaused(true);
+    setPosition(Math.max(0, Math.min(index, total - 1)));
+  }, [total]);
+
+  const stepForward = useCallback(() => seek(position + 1), [seek, position]);
+
+  const stepBackward = useCallback(() => seek(position - 1), [seek, position]);
+
+  return {
+    frame,
+    position,
+    total,
+    speed,
+    isRunning,
+    isPlaying,
+    isPaused,
+    play,
+    clear,
+    pause,
+    resume,
+    seek,
+    stepForward,
+    stepBackward,
+    setSpeed,
+  };
+};
+
+export type StepPlayer = ReturnType<typeof useStepPlayer>;
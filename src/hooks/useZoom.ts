@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, type RefObject } from 'react';
+import * as d3 from 'd3';
+
+// Anything with a position in content coordinates; d3 simulation nodes qualify
+export interface Position {
+  x?: number;
+  y?: number;
+}
+
+// What the minimap draws and what "fit" frames: node centers and the lines between them
+export interface ZoomContent {
+  points: Position[];
+  segments: [Position, Position][];
+  // Room around each point, such as the node radius
+  padding: number;
+}
+
+interface Bounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface ZoomOptions {
+  // Size of the SVG's viewBox; zooming maps content into it
+  width: number;
+  height: number;
+  // Called on every zoom or pan; the caller applies the transform to its content
+  onZoom: (transform: d3.ZoomTransform) => void;
+  // Presses that belong to something under the pointer instead of starting a pan
+  ignore?: (event: MouseEvent | TouchEvent) => boolean;
+}
+
+const SCALE_EXTENT: [number, number] = [0.1, 8];
+const MINIMAP_MARGIN = 6;
+
+const contentBounds = ({ points, padding }: ZoomContent): Bounds | null => {
+  if (points.length === 0) return null;
+  const xs = points.map(p => p.x ?? 0);
+  const ys = points.map(p => p.y ?? 0);
+  return {
+    x0: Math.min(...xs) - padding,
+    y0: Math.min(...ys) - padding,
+    x1: Math.max(...xs) + padding,
+    y1: Math.max(...ys) + padding,
+  };
+};
+
+// Wheel and pinch zoom plus background panning for an SVG, with a fit-to-content action and
+// a minimap. Zooming never re-renders the component: the transform goes straight to onZoom.
+// Elements that handle their own drags stop the press from reaching the SVG, so dragging
+// them never pans.
+export const useZoom = (svgRef: RefObject<SVGSVGElement>, options: ZoomOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const behaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const transformRef = useRef(d3.zoomIdentity);
+  const contentRef = useRef<ZoomContent>({ points: [], segments: [], padding: 0 });
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  // Content coordinates of the minimap's top-left corner and its pixels per content unit
+  const minimapView = useRef({ x: 0, y: 0, k: 1 });
+  const frameRequest = useRef(0);
+
+  const drawMinimap = useCallback(() => {
+    frameRequest.current = 0;
+    const canvas = minimapRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const content = contentBounds(contentRef.current);
+
+    // The part of the content inside the viewBox at the current transform
+    const { width, height } = optionsRef.current;
+    const [vx0, vy0] = transformRef.current.invert([0, 0]);
+    const [vx1, vy1] = transformRef.current.invert([width, height]);
+    const visible = { x0: vx0, y0: vy0, x1: vx1, y1: vy1 };
+
+    // Only worth showing when part of the structure is out of view
+    const clipped = content !== null &&
+      (content.x0 < visible.x0 || content.y0 < visible.y0 || content.x1 > visible.x1 || content.y1 > visible.y1);
+    canvas.style.visibility = clipped ? 'visible' : 'hidden';
+    if (!content || !clipped) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvas.clientWidth * ratio);
+    canvas.height = Math.round(canvas.clientHeight * ratio);
+    const world = {
+      x0: Math.min(content.x0, visible.x0),
+      y0: Math.min(content.y0, visible.y0),
+      x1: Math.max(content.x1, visible.x1),
+      y1: Math.max(content.y1, visible.y1),
+    };
+    const k = Math.min(
+      (canvas.clientWidth - 2 * MINIMAP_MARGIN) / (world.x1 - world.x0),
+      (canvas.clientHeight - 2 * MINIMAP_MARGIN) / (world.y1 - world.y0)
+    );
+    minimapView.current = { x: world.x0 - MINIMAP_MARGIN / k, y: world.y0 - MINIMAP_MARGIN / k, k };
+    const { x, y } = minimapView.current;
+    context.setTransform(k * ratio, 0, 0, k * ratio, -x * k * ratio, -y * k * ratio);
+
+    const { points, segments } = contentRef.current;
+    context.lineWidth = 1 / k;
+    context.strokeStyle = '#9ca3af';
+    context.beginPath();
+    segments.forEach(([a, b]) => {
+      context.moveTo(a.x ?? 0, a.y ?? 0);
+      context.lineTo(b.x ?? 0, b.y ?? 0);
+    });
+    context.stroke();
+
+    context.fillStyle = '#4f46e5';
+    const dot = 3 / k;
+    points.forEach(p => context.fillRect((p.x ?? 0) - dot / 2, (p.y ?? 0) - dot / 2, dot, dot));
+
+    context.lineWidth = 2 / k;
+    context.strokeStyle = '#f97316';
+    context.strokeRect(visible.x0, visible.y0, visible.x1 - visible.x0, visible.y1 - visible.y0);
+  }, []);
+
+  // Redraws are coalesced to one per animation frame, however often the content ticks
+  const refresh = useCallback(() => {
+    if (!frameRequest.current) frameRequest.current = requestAnimationFrame(drawMinimap);
+  }, [drawMinimap]);
+
+  const setContent = useCallback((content: ZoomContent) => {
+    contentRef.current = content;
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const behavior = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent(SCALE_EXTENT)
+      // A little jitter between press and release still counts as a click, e.g. to select a node
+      .clickDistance(4)
+      // d3's default filter, plus whatever the visualizer claims; the wheel always zooms
+      .filter(event => (!event.ctrlKey || event.type === 'wheel') && !event.button &&
+        (event.type === 'wheel' || !optionsRef.current.ignore?.(event)))
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+        transformRef.current = event.transform;
+        optionsRef.current.onZoom(event.transform);
+        refresh();
+      });
+    behaviorRef.current = behavior;
+    // Double-clicks are left to the visualizer, e.g. for adding nodes
+    d3.select(svg).call(behavior).on('dblclick.zoom', null);
+
+    // Clicking or dragging on the minimap centers the view there
+    const minimap = minimapRef.current;
+    const centerOnMinimap = (event: d3.D3DragEvent<HTMLCanvasElement, unknown, unknown>) => {
+      const { x, y, k } = minimapView.current;
+      behavior.translateTo(d3.select(svg), x + event.x / k, y + event.y / k);
+    };
+    if (minimap) {
+      d3.select(minimap).call(d3.drag<HTMLCanvasElement, unknown>()
+        .container(minimap)
+        .on('start drag', centerOnMinimap));
+    }
+
+    return () => {
+      d3.select(svg).on('.zoom', null);
+      if (minimap) d3.select(minimap).on('.drag', null);
+      cancelAnimationFrame(frameRequest.current);
+      frameRequest.current = 0;
+      behaviorRef.current = null;
+    };
+  }, [svgRef, refresh]);
+
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !behaviorRef.current) return;
+    d3.select(svgRef.current).transition().duration(250).call(behaviorRef.current.scaleBy, factor);
+  };
+
+  // Frames the whole structure, never zooming in past 1:1
+  const fit = () => {
+    const bounds = contentBounds(contentRef.current);
+    if (!svgRef.current || !behaviorRef.current || !bounds) return;
+    const { width, height } = optionsRef.current;
+    const scale = Math.max(
+      SCALE_EXTENT[0],
+      Math.min(1, width / (bounds.x1 - bounds.x0), height / (bounds.y1 - bounds.y0))
+    );
+    const transform = d3.zoomIdentity
+      .translate(width / 2, height / 2)
+      .scale(scale)
+      .translate(-(bounds.x0 + bounds.x1) / 2, -(bounds.y0 + bounds.y1) / 2);
+    d3.select(svgRef.current).transition().duration(500).call(behaviorRef.current.transform, transform);
+  };
+
+  return { transformRef, minimapRef, setContent, refresh, zoomBy, fit };
+};
+
+export type Zoom = ReturnType<typeof useZoom>;
@@ -0,0 +1,40 @@
+import type { Graph } from '../algorithms/graph';
+import { createFrameStore } from '../algorithms/trace';
+import type { EdgeStatus, Frame, Step } from '../algorithms/types';
+
+// Small graphs for the algorithm tests: "A-B:4 B-C" has an edge A-B of weight 4 and B-C of weight 1.
+// Edge ids are the edge's position in the spec, as in the visualizer; extra nodes are isolated.
+export const graphOf = (
+  spec: string,
+  { directed = false, weighted = true, nodes = [] }: { directed?: boolean; weighted?: boolean; nodes?: string[] } = {}
+): Graph => {
+  const graph: Graph = { nodes: [], edges: [], directed, weighted };
+  const add = (node: string) => {
+    if (!graph.nodes.includes(node)) graph.nodes.push(node);
+  };
+  spec.split(/\s+/).filter(Boolean).forEach((token, i) => {
+    const [, source, target, weight] = /^([^-:]+)-([^-:]+)(?::(-?\d+))?$/.exec(token)!;
+    add(source);
+    add(target);
+    graph.edges.push({ id: String(i), source, target, weight: weight === undefined ? 1 : Number(weight) });
+  });
+  nodes.forEach(add);
+  return graph;
+};
+
+export const finalFrame = (steps: Step[]): Frame => createFrameStore(steps).frameAt(steps.length - 1)!;
+
+// Nodes in the order they were first marked current
+export const visitOrder = (steps: Step[]): string[] => {
+  const order: string[] = [];
+  for (const step of steps) {
+    for (const action of step.actions) {
+      if (action.type === 'node' && action.status === 'current' && !order.includes(action.id)) order.push(action.id);
+    }
+  }
+  return order;
+};
+
+// Ids of the edges the frame shows with the given status
+export const edgesWith = (frame: Frame, status: EdgeStatus): string[] =>
+  Object.entries(frame.edges).filter(([, mark]) => mark.status === status).map(([id]) => id).sort();